@@ -0,0 +1,196 @@
+import {
+    HAND_SIZE,
+    canAddAttack,
+    canBeat,
+    compareCards,
+    isActive,
+    isTrump,
+    legalAttacks,
+    legalDefenses,
+    legalTransfers,
+    rankValue,
+    sameCard,
+    throwInOpen,
+    type Action,
+    type BotLevel,
+    type Card,
+    type GameState,
+} from './game';
+import { beatChance, cardMemory } from './memory';
+import { searchDecide, type SearchOptions } from './search';
+
+// Стратегия уровня сложности: выбор карты для атаки и ответ защитника
+type Strategy = {
+    // null — пас (для первой карты отбоя не допускается)
+    attack(state: GameState, botIdx: number, legals: Card[]): Card | null;
+    defend(state: GameState, botIdx: number): Action;
+};
+
+export type BotOptions = {
+    search?: Partial<SearchOptions>; // бюджет перебора для уровня expert
+};
+
+// Логика бота: решение за игрока botIdx по его уровню сложности
+export function botDecide(state: GameState, botIdx: number, options: BotOptions = {}): Action | null {
+    const bot = state.players[botIdx];
+    if (bot?.type !== 'bot') return null;
+    const level = bot.botLevel ?? 'easy';
+    if (level === 'expert') {
+        // Решать нечего — перебирать тоже нечего
+        const fallback = decideWith(STRATEGIES.hard, state, botIdx);
+        if (!fallback) return null;
+        // Перебор включается, когда колода пуста (или всегда, если так настроено);
+        // розыгрыши ведутся стратегией medium
+        const rollout = (s: GameState, idx: number) => decideWith(STRATEGIES.medium, s, idx);
+        return searchDecide(state, botIdx, rollout, options.search) ?? fallback;
+    }
+    return decideWith(STRATEGIES[level], state, botIdx);
+}
+
+// Ход за игрока, который не успел сходить сам: защитник берёт, подкидывающий пасует,
+// а заходящий кладёт младшую карту (пасовать первой картой нельзя)
+export function fallbackAction(state: GameState, playerIdx: number): Action | null {
+    if (state.phase === 'finished') return null;
+    if (state.phase === 'defend') return playerIdx === state.defender ? { kind: 'take' } : null;
+    if (playerIdx === state.defender) return null;
+    if (playerIdx !== state.attacker && !throwInOpen(state)) return null;
+    if (state.table.length > 0) return { kind: 'done' };
+    if (playerIdx !== state.attacker) return null;
+    return { kind: 'attack', card: lowest(state, state.players[playerIdx].hand) };
+}
+
+function decideWith(strategy: Strategy, state: GameState, botIdx: number): Action | null {
+    // Бот подкидывает, если он не защитник, ещё не спасовал в этом отбое и главный атакующий уступил ему очередь
+    const isThrower = botIdx !== state.defender && isActive(state, botIdx) && !state.passed.includes(botIdx);
+    const mayAttack =
+        (state.phase === 'throw' || (state.phase === 'attack' && (botIdx === state.attacker || state.table.length > 0)))
+        && (botIdx === state.attacker || throwInOpen(state));
+
+    if (isThrower && mayAttack) {
+        const legals = canAddAttack(state, botIdx) ? legalAttacks(state, botIdx) : [];
+        if (legals.length === 0) return { kind: 'done' };
+        const card = strategy.attack(state, botIdx, legals) ?? (state.table.length === 0 ? lowest(state, legals) : null);
+        return card ? { kind: 'attack', card } : { kind: 'done' };
+    }
+
+    if (state.phase === 'defend' && botIdx === state.defender) {
+        // всё побито — ход атаки или завершение
+        if (state.table.every((s) => !!s.defend)) return null;
+        return strategy.defend(state, botIdx);
+    }
+
+    return null;
+}
+
+const STRATEGIES: Record<Exclude<BotLevel, 'expert'>, Strategy> = {
+    easy: {
+        // минимальная карта для атаки/докидки
+        attack: (state, _botIdx, legals) => lowest(state, legals),
+        defend(state, botIdx) {
+            const firstOpen = state.table.findIndex((s) => !s.defend);
+            const legals = legalDefenses(state, botIdx, firstOpen);
+            if (legals.length > 0) return { kind: 'defend', attackIndex: firstOpen, card: lowest(state, legals) };
+            // нечем биться — переводим, если можно, иначе беру
+            const transfers = legalTransfers(state, botIdx);
+            if (transfers.length > 0) return { kind: 'transfer', card: lowest(state, transfers) };
+            return { kind: 'take' };
+        },
+    },
+    medium: {
+        attack: (state, _botIdx, legals) => {
+            if (state.table.length === 0) return chooseLead(state, legals, () => 0);
+            const candidates = throwInCandidates(state, legals);
+            return candidates.length > 0 ? lowest(state, candidates) : null;
+        },
+        defend: (state, botIdx) => heuristicDefend(state, botIdx),
+    },
+    hard: {
+        attack: (state, botIdx, legals) => {
+            const memory = cardMemory(state, botIdx);
+            const risk = (c: Card) => beatChance(state, memory, state.defender, c);
+            if (state.table.length === 0) return chooseLead(state, legals, risk);
+            const candidates = throwInCandidates(state, legals);
+            if (candidates.length === 0) return null;
+            return candidates.slice().sort((a, b) => risk(a) - risk(b) || compareCards(a, b, state.trumpSuit))[0];
+        },
+        defend: (state, botIdx) => {
+            // В эндшпиле не берём, если можем отбиться: карты больше не приходят из колоды
+            if (state.deck.length === 0) {
+                const plan = planDefense(state, botIdx);
+                if (plan) return { kind: 'defend', attackIndex: plan[0].attackIndex, card: plan[0].card };
+            }
+            return heuristicDefend(state, botIdx);
+        },
+    },
+};
+
+function lowest(state: GameState, cards: Card[]): Card {
+    return cards.slice().sort((a, b) => compareCards(a, b, state.trumpSuit))[0];
+}
+
+// Старшие карты (дама и выше) и козыри бережём, пока колода не кончилась
+function isValuable(state: GameState, card: Card): boolean {
+    return isTrump(card, state.trumpSuit) || rankValue(card.rank) >= rankValue('Q');
+}
+
+function throwInCandidates(state: GameState, legals: Card[]): Card[] {
+    if (state.deck.length === 0) return legals;
+    return legals.filter((c) => !isValuable(state, c));
+}
+
+// Заход: некозырный ранг, которого на руках больше всего (их можно подкинуть следом),
+// при равенстве — с меньшим риском, что его побьют, и младший
+function chooseLead(state: GameState, legals: Card[], risk: (c: Card) => number): Card {
+    const plain = legals.filter((c) => !isTrump(c, state.trumpSuit));
+    const pool = plain.length > 0 ? plain : legals;
+    const copies = (c: Card) => pool.filter((x) => x.rank === c.rank).length;
+    return pool.slice().sort((a, b) =>
+        copies(b) - copies(a) || risk(a) - risk(b) || compareCards(a, b, state.trumpSuit),
+    )[0];
+}
+
+type PlannedDefense = { attackIndex: number; card: Card };
+
+// Самая дешёвая полная защита: старшие атаки закрываем первыми младшими подходящими картами
+function planDefense(state: GameState, botIdx: number): PlannedDefense[] | null {
+    const hand = state.players[botIdx].hand.slice();
+    const open = state.table
+        .map((slot, attackIndex) => ({ slot, attackIndex }))
+        .filter(({ slot }) => !slot.defend)
+        .sort((a, b) => compareCards(b.slot.attack, a.slot.attack, state.trumpSuit));
+
+    const plan: PlannedDefense[] = [];
+    for (const { slot, attackIndex } of open) {
+        const options = hand.filter((c) => canBeat(slot.attack, c, state.trumpSuit));
+        if (options.length === 0) return null;
+        const card = lowest(state, options);
+        hand.splice(hand.findIndex((c) => sameCard(c, card)), 1);
+        plan.push({ attackIndex, card });
+    }
+    return plan;
+}
+
+function heuristicDefend(state: GameState, botIdx: number): Action {
+    const transfers = legalTransfers(state, botIdx);
+    const cheapTransfers = transfers.filter((c) => !isTrump(c, state.trumpSuit));
+    const plan = planDefense(state, botIdx);
+
+    // Перевод некозырной картой дешевле любой защиты, пока идёт колода
+    if (cheapTransfers.length > 0 && (state.deck.length > 0 || !plan)) {
+        return { kind: 'transfer', card: lowest(state, cheapTransfers) };
+    }
+    if (!plan) {
+        if (transfers.length > 0) return { kind: 'transfer', card: lowest(state, transfers) };
+        return { kind: 'take' };
+    }
+
+    // В начале игры не тратим старшие козыри ради пары мелких карт — дешевле взять
+    const trumpsSpent = plan.filter((p) => isTrump(p.card, state.trumpSuit));
+    const highTrump = trumpsSpent.some((p) => rankValue(p.card.rank) >= rankValue('Q'));
+    const smallTable = state.table.length <= 2;
+    if (state.deck.length > HAND_SIZE && smallTable && (highTrump || trumpsSpent.length >= 2)) {
+        return { kind: 'take' };
+    }
+
+    return { kind: 'defend', attackIndex: plan[0].attackIndex, card: plan[0].card };
+}
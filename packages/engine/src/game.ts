@@ -1,5 +1,8 @@
+import { createRng, randomSeed, type Rng, type Seed } from './random';
+import { resolveRules, type DeckSize, type GameRules } from './rules';
+
 export type Suit = '♠' | '♥' | '♦' | '♣';
-export type Rank = '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
+export type Rank = '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
 
 export type Card = {
     suit: Suit;
@@ -10,13 +13,26 @@ export type Deck = Card[];
 
 export type PlayerType = 'human' | 'bot';
 
+// Сложность бота: easy — младшей картой, medium — эвристики, hard — эвристики с памятью карт,
+// expert — перебор розыгрышей (Монте-Карло) в эндшпиле
+export type BotLevel = 'easy' | 'medium' | 'hard' | 'expert';
+
 export type Player = {
     id: string;
     name: string;
     type: PlayerType;
+    botLevel?: BotLevel; // только для ботов; по умолчанию easy
     hand: Card[];
 };
 
+// Описание места за столом при старте партии
+export type SeatSpec = {
+    id: string;
+    name: string;
+    type: PlayerType;
+    botLevel?: BotLevel;
+};
+
 export type TableSlot = {
     attack: Card;
     defend?: Card;
@@ -29,32 +45,73 @@ export type GameState = {
     deck: Deck;
     trumpSuit: Suit;
     trumpCard: Card;
-    players: [Player, Player];
-    attacker: number; // index in players
+    players: Player[]; // по кругу, по часовой стрелке
+    attacker: number; // index in players — первый (главный) атакующий
     defender: number; // index in players
+    passed: number[]; // индексы подкидывающих, сказавших «пас» в текущем отбое
+    bout: number; // номер текущего отбоя, с нуля
     table: TableSlot[];
+    discard: Card[]; // отбой: карты, вышедшие из игры
     phase: Phase;
-    winnerId?: string;
+    rules: GameRules;
+    seed: Seed; // seed тасовки: тот же seed и те же действия дают ту же партию
+    previousDurakId?: string; // дурак прошлой партии — от него зависит, кто ходит первым
+    revealedTrump?: { playerId: string; card: Card }; // наименьший козырь, показанный для первого хода
+    known: Record<string, Card[]>; // открыто известные карты в руках: взятые со стола, показанные, последний козырь
+    log: LogEntry[]; // все принятые действия по порядку
+    finishOrder: string[]; // id игроков в порядке выхода из игры
+    durakId?: string; // последний игрок с картами; нет — ничья
     message?: string; // для отладки/подсказок
 };
 
+// Параметры старта партии
+export type StartOptions = {
+    rules?: Partial<GameRules>;
+    seed?: Seed; // если не задан — выбирается случайно (128 бит) и сохраняется в состоянии
+    previousDurakId?: string; // для повторной партии: первым ходит дурак (или его сосед)
+};
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+export const HAND_SIZE = 6;
+// После стольких принятых ходов незаконченная партия считается зациклившейся и заканчивается вничью.
+// Действия, которые ничего не меняют, движок не принимает — ими счётчик не накрутить
+export const MAX_ACTIONS = 1000;
+
 const RANK_ORDER: Record<Rank, number> = {
-    '6': 0,
-    '7': 1,
-    '8': 2,
-    '9': 3,
-    '10': 4,
-    'J': 5,
-    'Q': 6,
-    'K': 7,
-    'A': 8,
+    '2': 0,
+    '3': 1,
+    '4': 2,
+    '5': 3,
+    '6': 4,
+    '7': 5,
+    '8': 6,
+    '9': 7,
+    '10': 8,
+    'J': 9,
+    'Q': 10,
+    'K': 11,
+    'A': 12,
 };
 
-export function makeDeck(): Deck {
-    const suits: Suit[] = ['♠', '♥', '♦', '♣'];
-    const ranks: Rank[] = ['6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+export const SUITS: Suit[] = ['♠', '♥', '♦', '♣'];
+export const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+
+// Младший ранг колоды для каждого размера
+const LOWEST_RANK: Record<DeckSize, Rank> = {
+    24: '9',
+    36: '6',
+    52: '2',
+};
+
+export function deckRanks(size: DeckSize = 36): Rank[] {
+    return RANKS.slice(RANKS.indexOf(LOWEST_RANK[size]));
+}
+
+export function makeDeck(size: DeckSize = 36): Deck {
+    const ranks = deckRanks(size);
     const deck: Deck = [];
-    for (const s of suits) {
+    for (const s of SUITS) {
         for (const r of ranks) {
             deck.push({ suit: s, rank: r });
         }
@@ -62,10 +119,10 @@ export function makeDeck(): Deck {
     return deck;
 }
 
-export function shuffle<T>(arr: T[]): T[] {
+export function shuffle<T>(arr: T[], rng: Rng = Math.random): T[] {
     const a = arr.slice();
     for (let i = a.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(rng() * (i + 1));
         [a[i], a[j]] = [a[j], a[i]];
     }
     return a;
@@ -85,25 +142,53 @@ export function canBeat(attack: Card, defend: Card, trumpSuit: Suit): boolean {
     return false;
 }
 
+export function rankValue(rank: Rank): number {
+    return RANK_ORDER[rank];
+}
+
+export function sameCard(a: Card, b: Card): boolean {
+    return a.suit === b.suit && a.rank === b.rank;
+}
+
+// Порядок «от младшей к старшей»: сначала некозырные, внутри масти — по рангу
+export function compareCards(a: Card, b: Card, trumpSuit: Suit): number {
+    const ta = isTrump(a, trumpSuit);
+    const tb = isTrump(b, trumpSuit);
+    if (ta !== tb) return ta ? 1 : -1;
+    if (a.suit !== b.suit) return a.suit.localeCompare(b.suit);
+    return RANK_ORDER[a.rank] - RANK_ORDER[b.rank];
+}
+
 export function sortHand(hand: Card[], trumpSuit: Suit): Card[] {
-    return hand.slice().sort((a, b) => {
-        const ta = isTrump(a, trumpSuit);
-        const tb = isTrump(b, trumpSuit);
-        if (ta !== tb) return ta ? 1 : -1;
-        if (a.suit !== b.suit) return a.suit.localeCompare(b.suit);
-        return RANK_ORDER[a.rank] - RANK_ORDER[b.rank];
-    });
-}
-
-export function startGame(humanId: string, botId: string): GameState {
-    let deck = shuffle(makeDeck());
-    const trumpCard = deck[deck.length - 1];
+    return hand.slice().sort((a, b) => compareCards(a, b, trumpSuit));
+}
+
+export function startGame(seats: SeatSpec[], options: StartOptions = {}): GameState {
+    if (seats.length < MIN_PLAYERS || seats.length > MAX_PLAYERS) {
+        throw new Error(`Количество игроков должно быть от ${MIN_PLAYERS} до ${MAX_PLAYERS}`);
+    }
+    if (new Set(seats.map((s) => s.id)).size !== seats.length) {
+        throw new Error('Идентификаторы игроков должны быть уникальны');
+    }
+
+    const rules = resolveRules(options.rules);
+    if (seats.length * HAND_SIZE > rules.deckSize) {
+        throw new Error(`Колоды из ${rules.deckSize} карт не хватит на ${seats.length} игроков`);
+    }
+
+    const seed = options.seed ?? randomSeed();
+    let deck = shuffle(makeDeck(rules.deckSize), createRng(seed));
+    // Раздаём с конца массива (pop), так что открытый козырь — первая карта: он лежит на дне и уходит последним
+    const trumpCard = deck[0];
     const trumpSuit = trumpCard.suit;
 
-    const players: [Player, Player] = [
-        { id: humanId, name: 'You', type: 'human', hand: [] },
-        { id: botId, name: 'Bot', type: 'bot', hand: [] },
-    ];
+    const players: Player[] = seats.map((s) => ({
+        id: s.id,
+        name: s.name,
+        type: s.type,
+        ...(s.type === 'bot' ? { botLevel: s.botLevel ?? 'easy' } : {}),
+        hand: [],
+    }));
 
     const state: GameState = {
         deck,
@@ -112,26 +197,111 @@ export function startGame(humanId: string, botId: string): GameState {
         players,
         attacker: 0,
         defender: 1,
+        passed: [],
+        bout: 0,
         table: [],
+        discard: [],
         phase: 'attack',
+        rules,
+        seed,
+        previousDurakId: options.previousDurakId,
+        known: Object.fromEntries(seats.map((s) => [s.id, []])),
+        log: [],
+        finishOrder: [],
     };
 
     refillHands(state);
+    chooseFirstAttacker(state);
     return state;
 }
 
-// Раздача до 6 карт: сначала атакующий, потом защищающий
+// Первый ход: в повторной партии — по дураку прошлой, иначе у наименьшего козыря
+function chooseFirstAttacker(state: GameState) {
+    const durakIdx = state.players.findIndex((p) => p.id === state.previousDurakId);
+    let lead = 0;
+    if (durakIdx >= 0) {
+        lead = state.rules.rematchLead === 'durak' ? durakIdx : (durakIdx + 1) % state.players.length;
+        state.message = `Первым ходит ${state.players[lead].name}`;
+    } else {
+        let lowest: Card | null = null;
+        for (let idx = 0; idx < state.players.length; idx++) {
+            for (const c of state.players[idx].hand) {
+                if (!isTrump(c, state.trumpSuit)) continue;
+                if (!lowest || RANK_ORDER[c.rank] < RANK_ORDER[lowest.rank]) {
+                    lowest = c;
+                    lead = idx;
+                }
+            }
+        }
+        if (lowest) {
+            state.revealedTrump = { playerId: state.players[lead].id, card: lowest };
+            state.known[state.players[lead].id].push(lowest);
+            state.message = `Первым ходит ${state.players[lead].name}: наименьший козырь ${lowest.rank}${lowest.suit}`;
+        }
+    }
+    state.attacker = lead;
+    state.defender = nextActive(state, lead);
+}
+
+// Игрок ещё в игре, пока у него есть карты или колода не пуста
+export function isActive(state: GameState, playerIndex: number): boolean {
+    return state.players[playerIndex].hand.length > 0 || state.deck.length > 0;
+}
+
+// Следующий по кругу активный игрок после from (или сам from, если других нет)
+export function nextActive(state: GameState, from: number): number {
+    const n = state.players.length;
+    for (let step = 1; step < n; step++) {
+        const idx = (from + step) % n;
+        if (isActive(state, idx)) return idx;
+    }
+    return from;
+}
+
+// Раздача до 6 карт: сначала атакующий, затем остальные по кругу, защищающий последним
 export function refillHands(state: GameState) {
-    const order = [state.attacker, state.defender];
+    const n = state.players.length;
+    const order: number[] = [];
+    for (let step = 0; step < n; step++) {
+        const idx = (state.attacker + step) % n;
+        if (idx !== state.defender) order.push(idx);
+    }
+    order.push(state.defender);
+
     for (const idx of order) {
-        while (state.players[idx].hand.length < 6 && state.deck.length > 0) {
+        while (state.players[idx].hand.length < HAND_SIZE && state.deck.length > 0) {
             const card = state.deck.pop()!;
             state.players[idx].hand.push(card);
+            // Последняя карта колоды — открытый козырь, все видят, кому он достался
+            if (state.deck.length === 0 && sameCard(card, state.trumpCard)) {
+                state.known[state.players[idx].id].push(card);
+            }
         }
     }
     // сортировка для удобства
-    state.players[0].hand = sortHand(state.players[0].hand, state.trumpSuit);
-    state.players[1].hand = sortHand(state.players[1].hand, state.trumpSuit);
+    for (const p of state.players) {
+        p.hand = sortHand(p.hand, state.trumpSuit);
+    }
+}
+
+// Все карты партии: колода, руки, стол и отбой
+export function allCards(state: GameState): Card[] {
+    const cards: Card[] = [...state.deck, ...state.discard];
+    for (const p of state.players) cards.push(...p.hand);
+    for (const slot of state.table) {
+        cards.push(slot.attack);
+        if (slot.defend) cards.push(slot.defend);
+    }
+    return cards;
+}
+
+// Проверка целостности: каждая карта колоды ровно в одном месте, лишних нет
+export function cardsConserved(state: GameState): boolean {
+    const cards = allCards(state);
+    const full = makeDeck(state.rules.deckSize);
+    if (cards.length !== full.length) return false;
+    const seen = new Set(cards.map((c) => c.rank + c.suit));
+    return seen.size === full.length && full.every((c) => seen.has(c.rank + c.suit));
 }
 
 export function ranksOnTable(state: GameState): Set<Rank> {
@@ -143,23 +313,62 @@ export function ranksOnTable(state: GameState): Set<Rank> {
     return set;
 }
 
-// Атаки разрешены в фазах 'attack' и 'throw'
+// Подкидывающие: все игроки в игре, кроме защитника (главный атакующий первым)
+export function throwers(state: GameState): number[] {
+    const n = state.players.length;
+    const list: number[] = [];
+    for (let step = 0; step < n; step++) {
+        const idx = (state.attacker + step) % n;
+        if (idx !== state.defender && isActive(state, idx)) list.push(idx);
+    }
+    return list;
+}
+
+// Чьего хода ждёт партия: без них отбой не сдвинется
+export function awaitedPlayers(state: GameState): number[] {
+    if (state.phase === 'finished') return [];
+    if (state.phase === 'defend') return [state.defender];
+    if (state.table.length === 0) return [state.attacker];
+    // Пока главный атакующий не спасовал, ждём только его; потом — остальных, кто ещё не спасовал
+    if (!throwInOpen(state)) return [state.attacker];
+    return throwers(state).filter((idx) => !state.passed.includes(idx));
+}
+
+// Приоритет главного атакующего: остальные подкидывают, только когда он спасовал или уже вышел из игры.
+// Каждая новая карта на столе снимает пасы — и приоритет снова за ним
+export function throwInOpen(state: GameState): boolean {
+    return state.passed.includes(state.attacker) || !isActive(state, state.attacker);
+}
+
+// Атаки разрешены в фазах 'attack' и 'throw'.
+// Первую карту кладёт главный атакующий, дальше подкидывать могут все, кроме защитника, — после его паса.
 export function legalAttacks(state: GameState, playerIndex: number): Card[] {
-    if ((state.phase !== 'attack' && state.phase !== 'throw') || playerIndex !== state.attacker) return [];
+    if (state.phase !== 'attack' && state.phase !== 'throw') return [];
+    if (playerIndex === state.defender) return [];
+    if (state.table.length >= boutLimit(state)) return [];
     const hand = state.players[playerIndex].hand;
-    if (state.table.length === 0) return hand;
+    if (state.table.length === 0) return playerIndex === state.attacker ? hand : [];
+    if (playerIndex !== state.attacker && !throwInOpen(state)) return [];
     const ranks = ranksOnTable(state);
     return hand.filter((c) => ranks.has(c.rank));
 }
 
-// Можно ли добавить ещё атаки (ограничение: максимум до размера руки защитника)
-export function canAddAttack(state: GameState): boolean {
-    const openCount = state.table.length;
+// Максимум карт на столе в текущем отбое по правилам (Infinity — без ограничения)
+export function boutLimit(state: GameState): number {
+    const { firstBoutLimit, maxAttacks } = state.rules;
+    const limit = state.bout === 0 && firstBoutLimit !== null ? firstBoutLimit : maxAttacks;
+    return limit ?? Infinity;
+}
+
+// Можно ли добавить ещё атаки: не больше лимита отбоя и не больше, чем карт у защитника
+export function canAddAttack(state: GameState, playerIndex: number = state.attacker): boolean {
+    if (state.table.length >= boutLimit(state)) return false;
+    const openCount = state.table.filter((s) => !s.defend).length;
     const defenderHand = state.players[state.defender].hand.length;
     if (openCount >= defenderHand) return false;
     // Должны быть доступные карты по рангу
     const ranks = ranksOnTable(state);
-    const hand = state.players[state.attacker].hand;
+    const hand = state.players[playerIndex].hand;
     return hand.some((c) => ranks.has(c.rank)) || state.table.length === 0;
 }
 
@@ -171,10 +380,27 @@ export function legalDefenses(state: GameState, playerIndex: number, attackIndex
     return hand.filter((c) => canBeat(slot.attack, c, state.trumpSuit));
 }
 
-function removeCardFromHand(hand: Card[], card: Card): boolean {
-    const i = hand.findIndex((c) => c.suit === card.suit && c.rank === card.rank);
+// Перевод (переводной дурак): карта того же ранга до начала защиты,
+// если у следующего игрока хватит карт отбиться от всего стола
+export function legalTransfers(state: GameState, playerIndex: number): Card[] {
+    if (state.rules.variant !== 'perevodnoy') return [];
+    if (state.phase !== 'defend' || playerIndex !== state.defender) return [];
+    if (state.table.length === 0 || state.table.some((s) => !!s.defend)) return [];
+    if (state.table.length >= boutLimit(state)) return [];
+    const next = nextActive(state, state.defender);
+    if (state.players[next].hand.length < state.table.length + 1) return [];
+    const rank = state.table[0].attack.rank;
+    return state.players[playerIndex].hand.filter((c) => c.rank === rank);
+}
+
+function removeCardFromHand(state: GameState, playerIndex: number, card: Card): boolean {
+    const player = state.players[playerIndex];
+    const i = player.hand.findIndex((c) => sameCard(c, card));
     if (i >= 0) {
-        hand.splice(i, 1);
+        player.hand.splice(i, 1);
+        const known = state.known[player.id];
+        const k = known.findIndex((c) => sameCard(c, card));
+        if (k >= 0) known.splice(k, 1);
         return true;
     }
     return false;
@@ -182,9 +408,14 @@ function removeCardFromHand(hand: Card[], card: Card): boolean {
 
 function moveTableToDefender(state: GameState) {
     const defender = state.players[state.defender];
+    const known = state.known[defender.id];
     for (const slot of state.table) {
         defender.hand.push(slot.attack);
-        if (slot.defend) defender.hand.push(slot.defend);
+        known.push(slot.attack);
+        if (slot.defend) {
+            defender.hand.push(slot.defend);
+            known.push(slot.defend);
+        }
     }
     state.table = [];
 }
@@ -194,14 +425,36 @@ export type ActionAttack = { kind: 'attack'; card: Card };
 export type ActionDefend = { kind: 'defend'; attackIndex: number; card: Card };
 export type ActionTake = { kind: 'take' };
 export type ActionDone = { kind: 'done' };
-export type Action = ActionAttack | ActionDefend | ActionTake | ActionDone;
+export type ActionTransfer = { kind: 'transfer'; card: Card };
+export type Action = ActionAttack | ActionDefend | ActionTake | ActionDone | ActionTransfer;
+
+// Запись журнала: кто, что сделал и в какую фазу перешла игра
+export type LogEntry = {
+    seq: number;
+    playerId: string;
+    action: Action;
+    phase: Phase;
+};
 
 export type ApplyResult =
     | { ok: true; state: GameState }
     | { ok: false; error: string; state: GameState };
 
-// Основной редьюсер игровых действий
+// Основной редьюсер игровых действий; принятые действия попадают в журнал
 export function applyAction(state: GameState, playerId: string, action: Action): ApplyResult {
+    const res = reduceAction(state, playerId, action);
+    if (res.ok) {
+        state.log.push({ seq: state.log.length + 1, playerId, action: { ...action }, phase: state.phase });
+        if (state.phase !== 'finished' && state.log.length >= MAX_ACTIONS) {
+            state.phase = 'finished';
+            state.durakId = undefined;
+            state.message = 'Ничья: партия зациклилась';
+        }
+    }
+    return res;
+}
+
+function reduceAction(state: GameState, playerId: string, action: Action): ApplyResult {
     if (state.phase === 'finished') {
         return { ok: false, error: 'Игра завершена', state };
     }
@@ -210,20 +463,31 @@ export function applyAction(state: GameState, playerId: string, action: Action):
     if (me < 0) return { ok: false, error: 'Игрок не найден', state };
 
     if (action.kind === 'attack') {
-        if (me !== state.attacker) return { ok: false, error: 'Сейчас не ваш ход атаковать', state };
+        if (me === state.defender) return { ok: false, error: 'Защищающийся не может атаковать', state };
+        if (state.table.length === 0 && me !== state.attacker) {
+            return { ok: false, error: 'Первым ходит главный атакующий', state };
+        }
+        if (me !== state.attacker && !throwInOpen(state)) {
+            return { ok: false, error: 'Подкидывать можно после паса главного атакующего', state };
+        }
+        // Атаковать и докидывать можно только в пределах лимита отбоя и руки защитника
+        if (state.table.length >= boutLimit(state)) {
+            return { ok: false, error: 'Докидывать больше нельзя (лимит карт в отбое)', state };
+        }
         const legal = legalAttacks(state, me);
         const allowed = legal.some((c) => c.suit === action.card.suit && c.rank === action.card.rank);
         if (!allowed) return { ok: false, error: 'Этой картой нельзя атаковать сейчас', state };
 
-        // В фазе 'throw' тоже можно атаковать, но с лимитом по руке защитника
-        if (state.phase === 'throw' && !canAddAttack(state)) {
+        if (!canAddAttack(state, me)) {
             return { ok: false, error: 'Докидывать больше нельзя (лимит по руке защитника)', state };
         }
 
-        const ok = removeCardFromHand(state.players[me].hand, action.card);
+        const ok = removeCardFromHand(state, me, action.card);
         if (!ok) return { ok: false, error: 'Карты нет в руке', state };
 
         state.table.push({ attack: action.card });
+        // Новая карта — новые ранги: спасовавшие снова могут подкинуть
+        state.passed = [];
 
         // После атаки переходим в защиту, если не фаза 'throw'
         if (state.phase !== 'throw') {
@@ -233,8 +497,9 @@ export function applyAction(state: GameState, playerId: string, action: Action):
             state.phase = 'throw';
             state.message = 'Докидывайте доступные карты или завершите ход';
         }
+        maybeEndBout(state);
 
-        return { ok: true, state: advanceIfNeeded(state) };
+        return { ok: true, state };
     }
 
     if (action.kind === 'defend') {
@@ -243,157 +508,138 @@ export function applyAction(state: GameState, playerId: string, action: Action):
         const allowed = legals.some((c) => c.suit === action.card.suit && c.rank === action.card.rank);
         if (!allowed) return { ok: false, error: 'Этой картой нельзя побить атаку', state };
 
-        const ok = removeCardFromHand(state.players[me].hand, action.card);
+        const ok = removeCardFromHand(state, me, action.card);
         if (!ok) return { ok: false, error: 'Карты нет в руке', state };
 
         state.table[action.attackIndex].defend = action.card;
+        state.passed = [];
 
         // Проверим: все ли атаки побиты? Если да — атакующий может добавить (phase снова attack),
         // но если добавить нечего или игрок нажмёт "done", будет завершение.
         const allDefended = state.table.every((s) => !!s.defend);
         state.phase = allDefended ? 'attack' : 'defend';
         state.message = allDefended ? 'Можно добавить атаку или завершить ход' : 'Защититесь от оставшихся атак';
+        maybeEndBout(state);
 
-        return { ok: true, state: advanceIfNeeded(state) };
+        return { ok: true, state };
+    }
+
+    if (action.kind === 'transfer') {
+        if (me !== state.defender) return { ok: false, error: 'Переводить может только защищающийся', state };
+        if (state.rules.variant !== 'perevodnoy') return { ok: false, error: 'Перевод запрещён правилами', state };
+        const legals = legalTransfers(state, me);
+        const allowed = legals.some((c) => c.suit === action.card.suit && c.rank === action.card.rank);
+        if (!allowed) return { ok: false, error: 'Этой картой нельзя перевести', state };
+
+        const ok = removeCardFromHand(state, me, action.card);
+        if (!ok) return { ok: false, error: 'Карты нет в руке', state };
+
+        state.table.push({ attack: action.card });
+        // Переводящий становится атакующим, защищается следующий по кругу
+        state.attacker = me;
+        state.defender = nextActive(state, me);
+        state.passed = [];
+        state.phase = 'defend';
+        state.message = `Перевод! Защищается ${state.players[state.defender].name}`;
+        return { ok: true, state };
     }
 
     if (action.kind === 'take') {
         if (me !== state.defender) return { ok: false, error: 'Только защищающийся может взять', state };
+        // Брать можно только в защите, пока на столе есть непобитая карта: повторное «беру» ничего не меняет
+        if (state.phase !== 'defend' || state.table.every((s) => !!s.defend)) {
+            return { ok: false, error: 'Сейчас нечего брать', state };
+        }
         // Защитник решил взять — переходим в фазу докидывания для атакующего
         state.phase = 'throw';
-        state.message = 'Защитник берёт. Атакующий может докинуть карты и затем завершить ход';
+        state.message = 'Защитник берёт. Атакующие могут докинуть карты и затем завершить ход';
+        maybeEndBout(state);
         return { ok: true, state };
     }
 
     if (action.kind === 'done') {
-        if (me !== state.attacker) return { ok: false, error: 'Только атакующий завершает ход', state };
+        if (me === state.defender) return { ok: false, error: 'Только атакующие завершают ход', state };
+        if (state.phase !== 'attack' && state.phase !== 'throw') {
+            return { ok: false, error: 'Сейчас нельзя завершить ход', state };
+        }
 
         if (state.phase === 'attack') {
             // Завершение хода возможно только если все атаки побиты
             const allDefended = state.table.length > 0 && state.table.every((s) => !!s.defend);
             if (!allDefended) return { ok: false, error: 'Есть непобитые атаки. Либо добавьте, либо защитник пусть возьмёт', state };
-
-            // Сбросить карты со стола (в отбой) — здесь отбой не хранится, просто очищаем стол
-            state.table = [];
-            // Раздать карты: сначала атакующему, потом защищающему
-            refillHands(state);
-            // Поменять роли
-            [state.attacker, state.defender] = [state.defender, state.attacker];
-            state.phase = 'attack';
-            state.message = 'Ход завершён. Роли сменились';
-            checkFinish(state);
-            return { ok: true, state };
-        }
-
-        if (state.phase === 'throw') {
-            // Защитник берёт все карты со стола; роли не меняются
-            moveTableToDefender(state);
-            refillHands(state);
-            // Роли сохраняются: атакующий остаётся атакующим
-            state.phase = 'attack';
-            state.message = 'Защитник взял. Атакуйте снова';
-            checkFinish(state);
-            return { ok: true, state };
         }
 
-        return { ok: false, error: 'Сейчас нельзя завершить ход', state };
+        // Повторный пас ничего не меняет — не принимаем его, чтобы он не попал в журнал и не приближал MAX_ACTIONS
+        if (state.passed.includes(me)) return { ok: false, error: 'Вы уже спасовали', state };
+        state.passed.push(me);
+        state.message = `${state.players[me].name}: пас`;
+        maybeEndBout(state);
+        return { ok: true, state };
     }
 
     return { ok: false, error: 'Неизвестное действие', state };
 }
 
-// Автопереходы
-function advanceIfNeeded(state: GameState): GameState {
-    if (state.phase === 'attack') {
-        if (!canAddAttack(state)) {
-            // Нечего добавить — атакующий должен нажать "done". Автопереход не делаем.
-        }
-    }
-    checkFinish(state);
-    return state;
+// Отбой заканчивается, когда спасовали все подкидывающие
+function maybeEndBout(state: GameState) {
+    if (state.phase !== 'attack' && state.phase !== 'throw') return;
+    if (state.table.length === 0) return;
+    if (state.phase === 'attack' && !state.table.every((s) => !!s.defend)) return;
+    const waiting = throwers(state).filter((idx) => !state.passed.includes(idx));
+    if (waiting.length > 0) return;
+    endBout(state, state.phase === 'throw');
 }
 
-function checkFinish(state: GameState) {
-    const deckEmpty = state.deck.length === 0;
-    const p0Empty = state.players[0].hand.length === 0;
-    const p1Empty = state.players[1].hand.length === 0;
-
-    if (deckEmpty && (p0Empty || p1Empty)) {
-        if (p0Empty && p1Empty) {
-            state.phase = 'finished';
-            state.winnerId = undefined; // ничья
-            state.message = 'Ничья';
-        } else if (p0Empty) {
-            state.phase = 'finished';
-            state.winnerId = state.players[0].id;
-            state.message = `${state.players[0].name} победил`;
-        } else {
-            state.phase = 'finished';
-            state.winnerId = state.players[1].id;
-            state.message = `${state.players[1].name} победил`;
+// Завершение отбоя: раздача, проверка конца игры и передача хода по кругу
+function endBout(state: GameState, taken: boolean) {
+    if (taken) {
+        // Защитник берёт все карты со стола
+        moveTableToDefender(state);
+    } else {
+        // Сбросить карты со стола в отбой
+        for (const slot of state.table) {
+            state.discard.push(slot.attack);
+            if (slot.defend) state.discard.push(slot.defend);
         }
+        state.table = [];
+    }
+    // Раздать карты: сначала атакующим, защищающему последним
+    refillHands(state);
+    state.passed = [];
+    state.bout += 1;
+    checkFinish(state);
+    if (state.phase === 'finished') return;
+
+    if (taken) {
+        // Взявший пропускает ход: атакует следующий за ним
+        state.attacker = nextActive(state, state.defender);
+        state.message = 'Защитник взял. Ход переходит дальше';
+    } else {
+        // Отбившийся атакует сам, если ещё в игре
+        state.attacker = isActive(state, state.defender) ? state.defender : nextActive(state, state.defender);
+        state.message = 'Ход завершён. Роли сменились';
     }
+    state.defender = nextActive(state, state.attacker);
+    state.phase = 'attack';
 }
 
-// Логика бота: минимальная карта для атаки/защиты/докидки
-export function botDecide(state: GameState): Action | null {
-    const botIdx = state.players.findIndex((p) => p.type === 'bot');
-    if (botIdx < 0) return null;
+function checkFinish(state: GameState) {
+    if (state.deck.length > 0) return;
 
-    if (state.phase === 'attack' && botIdx === state.attacker) {
-        const legals = legalAttacks(state, botIdx);
-        if (legals.length === 0) {
-            return { kind: 'done' };
-        }
-        const lowest = legals.slice().sort((a, b) => {
-            const ta = isTrump(a, state.trumpSuit);
-            const tb = isTrump(b, state.trumpSuit);
-            if (ta !== tb) return ta ? 1 : -1;
-            if (a.suit !== b.suit) return a.suit.localeCompare(b.suit);
-            return RANK_ORDER[a.rank] - RANK_ORDER[b.rank];
-        })[0];
-        return { kind: 'attack', card: lowest };
+    // Запоминаем вышедших игроков в порядке выхода
+    for (const p of state.players) {
+        if (p.hand.length === 0 && !state.finishOrder.includes(p.id)) state.finishOrder.push(p.id);
     }
 
-    if (state.phase === 'defend' && botIdx === state.defender) {
-        const firstOpen = state.table.findIndex((s) => !s.defend);
-        if (firstOpen < 0) {
-            // всё побито — ход атаки или завершение
-            return null;
-        }
-        const legals = legalDefenses(state, botIdx, firstOpen);
-        if (legals.length === 0) {
-            // нечем биться — беру
-            return { kind: 'take' };
-        }
-        const lowest = legals.slice().sort((a, b) => {
-            const ta = isTrump(a, state.trumpSuit);
-            const tb = isTrump(b, state.trumpSuit);
-            if (ta !== tb) return ta ? 1 : -1;
-            if (a.suit !== b.suit) return a.suit.localeCompare(b.suit);
-            return RANK_ORDER[a.rank] - RANK_ORDER[b.rank];
-        })[0];
-        return { kind: 'defend', attackIndex: firstOpen, card: lowest };
-    }
+    const remaining = state.players.filter((p) => p.hand.length > 0);
+    if (remaining.length > 1) return;
 
-    if (state.phase === 'throw' && botIdx === state.attacker) {
-        // Бот-атакующий докидывает по возможности, иначе завершает
-        if (!canAddAttack(state)) {
-            return { kind: 'done' };
-        }
-        const legals = legalAttacks(state, botIdx);
-        if (legals.length === 0) {
-            return { kind: 'done' };
-        }
-        const lowest = legals.slice().sort((a, b) => {
-            const ta = isTrump(a, state.trumpSuit);
-            const tb = isTrump(b, state.trumpSuit);
-            if (ta !== tb) return ta ? 1 : -1;
-            if (a.suit !== b.suit) return a.suit.localeCompare(b.suit);
-            return RANK_ORDER[a.rank] - RANK_ORDER[b.rank];
-        })[0];
-        return { kind: 'attack', card: lowest };
+    state.phase = 'finished';
+    if (remaining.length === 0) {
+        state.durakId = undefined; // ничья
+        state.message = 'Ничья';
+    } else {
+        state.durakId = remaining[0].id;
+        state.message = `${remaining[0].name} — дурак`;
     }
-
-    return null;
-}
\ No newline at end of file
+}
@@ -1 +1,11 @@
-export * from './game';
\ No newline at end of file
+export * from './bot';
+export * from './game';
+export * from './memory';
+export * from './protocol';
+export * from './random';
+export * from './rating';
+export * from './replay';
+export * from './rules';
+export * from './search';
+export * from './series';
+export * from './view';
@@ -0,0 +1,46 @@
+import { canBeat, makeDeck, sameCard, type Card, type GameState } from './game';
+
+// Память бота: что известно о чужих руках и какие карты ещё не видны
+export type CardMemory = {
+    known: Record<string, Card[]>; // открыто известные карты соперников
+    unseen: Card[]; // карты, местоположение которых бот не знает (чужие руки или колода)
+};
+
+export function cardMemory(state: GameState, botIdx: number): CardMemory {
+    const me = state.players[botIdx];
+    const seen: Card[] = [...me.hand, ...state.discard];
+    for (const slot of state.table) {
+        seen.push(slot.attack);
+        if (slot.defend) seen.push(slot.defend);
+    }
+    // Открытый козырь лежит под колодой, пока её не добрали
+    if (state.deck.length > 0) seen.push(state.trumpCard);
+
+    const known: Record<string, Card[]> = {};
+    for (const p of state.players) {
+        if (p.id === me.id) continue;
+        known[p.id] = state.known[p.id] ?? [];
+        seen.push(...known[p.id]);
+    }
+    const unseen = makeDeck(state.rules.deckSize).filter((c) => !seen.some((x) => sameCard(x, c)));
+    return { known, unseen };
+}
+
+// Оценка вероятности, что игрок playerIdx сможет побить карту
+export function beatChance(state: GameState, memory: CardMemory, playerIdx: number, card: Card): number {
+    const player = state.players[playerIdx];
+    const known = memory.known[player.id] ?? [];
+    if (known.some((c) => canBeat(card, c, state.trumpSuit))) return 1;
+
+    const hidden = Math.max(0, player.hand.length - known.length);
+    if (hidden === 0 || memory.unseen.length === 0) return 0;
+    const beaters = memory.unseen.filter((c) => canBeat(card, c, state.trumpSuit)).length;
+    // Вероятность, что среди hidden случайных невидимых карт нет ни одной старше
+    let miss = 1;
+    for (let i = 0; i < hidden; i++) {
+        const left = memory.unseen.length - i;
+        if (left <= 0) break;
+        miss *= Math.max(0, left - beaters) / left;
+    }
+    return 1 - miss;
+}
@@ -0,0 +1,298 @@
+import {
+    MAX_PLAYERS,
+    MIN_PLAYERS,
+    RANKS,
+    SUITS,
+    type Action,
+    type BotLevel,
+    type Card,
+    type PlayerType,
+} from './game';
+import type { GameRecord } from './replay';
+import type { DeckSize, GameRules, RematchLead, Variant } from './rules';
+import type { SeriesConfig, SeriesScoring, SeriesState } from './series';
+import type { GameView } from './view';
+
+// Версия протокола клиент ↔ сервер; меняется при несовместимых изменениях сообщений
+export const PROTOCOL_VERSION = 2;
+
+export const VARIANTS: Variant[] = ['podkidnoy', 'perevodnoy'];
+export const DECK_SIZES: DeckSize[] = [24, 36, 52];
+export const REMATCH_LEADS: RematchLead[] = ['durak', 'left-of-durak'];
+export const BOT_LEVELS: BotLevel[] = ['easy', 'medium', 'hard', 'expert'];
+export const SERIES_SCORINGS: SeriesScoring[] = ['wins', 'durak-points'];
+export const MAX_SERIES_TARGET = 20;
+// Что делать с местом игрока, который отключился и не вернулся вовремя: отдать боту или засчитать поражение
+export type DisconnectPolicy = 'bot' | 'forfeit';
+export const DISCONNECT_POLICIES: DisconnectPolicy[] = ['bot', 'forfeit'];
+
+// Пределы времени на ход, секунды; 0 — без ограничения
+export const MIN_TURN_SECONDS = 5;
+export const MAX_TURN_SECONDS = 600;
+// Сколько строк таблицы лидеров можно запросить за раз
+export const MAX_LEADERBOARD = 100;
+// Наибольшая задержка трансляции для зрителей, секунды
+export const MAX_SPECTATOR_DELAY_S = 120;
+
+// Место за столом: человек или бот, добавленный при старте
+export type Seat = {
+    playerId: string;
+    name: string;
+    type: PlayerType;
+    botLevel?: BotLevel;
+    offline?: boolean; // игрок отключился, место за ним держится
+};
+
+// Кто смотрит партию, не сидя за столом
+export type Spectator = { playerId: string; name: string };
+
+// Итог партии для одного игрока: проиграл тот, кто остался дураком (в том числе сдавшись)
+export type MatchResult = 'win' | 'loss' | 'draw';
+
+export type MatchSummary = {
+    at: number; // когда закончилась, epoch ms
+    variant: Variant;
+    players: string[]; // имена участников
+    result: MatchResult;
+    moves: number;
+    ratingDelta?: number; // только для партий между людьми
+};
+
+// Статистика игрока по всем законченным партиям
+export type PlayerProfile = {
+    playerId: string;
+    name: string;
+    rating: number;
+    ratedGames: number; // партии против людей, по которым считается рейтинг
+    games: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    durakCount: number; // остался дураком с картами на руках, без сдачи
+    totalMoves: number; // для средней длины партии
+    variants: Partial<Record<Variant, number>>;
+    recent: MatchSummary[]; // последние партии, новые в начале
+};
+
+export type LeaderboardEntry = Pick<PlayerProfile, 'playerId' | 'name' | 'rating' | 'ratedGames' | 'wins' | 'losses' | 'draws'>;
+
+// Что видно о комнате в списке открытых
+export type RoomSummary = {
+    id: string;
+    code: string;
+    clients: number;
+    humans: number;
+    inGame: boolean;
+};
+
+// Ожидание в очереди быстрой игры
+export type QueueStatus = {
+    variant: Variant;
+    players: number; // желаемое число игроков за столом
+    waiting: number; // сколько человек ждут того же стола, включая нас
+    waitedMs: number;
+    botFallbackInMs: number; // через сколько за стол сядут боты
+};
+
+// Чьего хода ждёт сервер и сколько осталось до хода по умолчанию
+export type TurnTimer = {
+    playerIds: string[];
+    msLeft: number; // остаток, а не момент времени: часы клиента и сервера могут расходиться
+};
+
+// Сообщения клиента. Всё, что относится к комнате, несёт её roomId
+export type ClientMessage =
+    | {
+          type: 'hello';
+          v?: number; // без версии — клиент старше самого протокола
+          initData?: string; // подписанные данные Telegram Mini App
+          playerId?: string; // только dev-режим сервера
+          name?: string; // только dev-режим сервера
+          roomId?: string | null; // комната, в которую вернуться после переподключения
+      }
+    | { type: 'rename'; name: string }
+    | { type: 'rooms' }
+    | { type: 'create' }
+    | { type: 'join'; code: string }
+    | { type: 'queue'; variant?: Variant; players?: number }
+    | { type: 'unqueue' }
+    | { type: 'profile'; playerId?: string } // без playerId — свой профиль
+    | { type: 'leaderboard'; limit?: number }
+    | { type: 'sit'; roomId: string }
+    | { type: 'stand'; roomId: string }
+    | {
+          type: 'start';
+          roomId: string;
+          rules?: Partial<GameRules>;
+          botLevel?: BotLevel;
+          players?: number;
+          turnSeconds?: number; // время на ход; 0 — без ограничения
+          onDisconnect?: DisconnectPolicy;
+          spectatorDelay?: number; // на сколько секунд зрители отстают от партии
+          series?: SeriesConfig | null; // играть серию до target очков; null — отдельные партии
+          seed?: number; // воспроизвести партию из баг-репорта
+      }
+    | { type: 'rematch'; roomId: string; agree: boolean } // новая партия начнётся, когда согласятся все сидящие
+    | { type: 'draw'; roomId: string; agree: boolean } // первое согласие — предложение ничьей, отказ снимает его
+    | { type: 'leave'; roomId: string }
+    | { type: 'concede'; roomId: string }
+    | { type: 'action'; roomId: string; action: Action };
+
+export type RoomMessage = Extract<ClientMessage, { roomId: string }>;
+
+// Сообщения сервера
+export type ServerMessage =
+    | { type: 'hello'; v: number; you: string; name: string }
+    | { type: 'lobby'; rooms: RoomSummary[] }
+    | ({ type: 'queue' } & QueueStatus)
+    | { type: 'profile'; profile: PlayerProfile | null } // null — игрок ещё не доиграл ни одной партии
+    | { type: 'leaderboard'; entries: LeaderboardEntry[] }
+    | {
+          type: 'menu';
+          you?: string;
+          room: RoomSummary;
+          seats: Seat[];
+          hostId: string | null;
+          playerCount: number;
+          turnSeconds: number;
+          onDisconnect: DisconnectPolicy;
+          spectatorDelay: number;
+          spectators: Spectator[];
+          series?: SeriesState;
+      }
+    // Участнику — его вид партии, зрителю — стол без скрытых карт (view.you = -1)
+    | {
+          type: 'state';
+          you: string;
+          room: RoomSummary;
+          hostId: string | null;
+          view: GameView;
+          spectators: Spectator[];
+          series?: SeriesState; // счёт серии с учётом этой партии, если она закончена
+          drawAgreed: string[]; // кто согласен на ничью; непустой — ничья предложена, первый — предложивший
+          rematchAgreed: string[]; // кто согласен на новую партию
+          turn?: TurnTimer; // только если на ход отведено время
+          offline: string[]; // отключившиеся участники партии, в том числе те, за кого уже играет бот
+          record?: GameRecord; // только для законченной партии
+      }
+    // code: 'version' — клиент устарел и должен обновиться
+    | { type: 'error'; message: string; code?: 'version' | 'invalid' };
+
+export type ParseResult = { ok: true; msg: ClientMessage } | { ok: false; error: string };
+
+const ROOM_TYPES = ['sit', 'stand', 'start', 'rematch', 'draw', 'leave', 'concede', 'action'] as const;
+
+function isObject(x: unknown): x is Record<string, unknown> {
+    return typeof x === 'object' && x !== null && !Array.isArray(x);
+}
+
+function isString(x: unknown, maxLength = 4096): x is string {
+    return typeof x === 'string' && x.length <= maxLength;
+}
+
+function isInt(x: unknown, min: number, max: number): x is number {
+    return typeof x === 'number' && Number.isInteger(x) && x >= min && x <= max;
+}
+
+function isCard(x: unknown): x is Card {
+    return isObject(x) && SUITS.includes(x.suit as Card['suit']) && RANKS.includes(x.rank as Card['rank']);
+}
+
+function isLimit(x: unknown): boolean {
+    return x === null || isInt(x, 1, 52);
+}
+
+function checkRules(x: unknown): string | null {
+    if (!isObject(x)) return 'rules: ожидается объект';
+    if (x.variant !== undefined && !VARIANTS.includes(x.variant as Variant)) return 'rules.variant: неизвестный вариант';
+    if (x.deckSize !== undefined && !DECK_SIZES.includes(x.deckSize as DeckSize)) return 'rules.deckSize: допустимо 24, 36 или 52';
+    if (x.rematchLead !== undefined && !REMATCH_LEADS.includes(x.rematchLead as RematchLead)) return 'rules.rematchLead: неизвестное значение';
+    if (x.firstBoutLimit !== undefined && !isLimit(x.firstBoutLimit)) return 'rules.firstBoutLimit: число от 1 или null';
+    if (x.maxAttacks !== undefined && !isLimit(x.maxAttacks)) return 'rules.maxAttacks: число от 1 или null';
+    return null;
+}
+
+function checkAction(x: unknown): string | null {
+    if (!isObject(x)) return 'action: ожидается объект';
+    switch (x.kind) {
+        case 'take':
+        case 'done':
+            return null;
+        case 'attack':
+        case 'transfer':
+            return isCard(x.card) ? null : 'action.card: неверная карта';
+        case 'defend':
+            if (!isInt(x.attackIndex, 0, 51)) return 'action.attackIndex: ожидается номер карты на столе';
+            return isCard(x.card) ? null : 'action.card: неверная карта';
+        default:
+            return 'action.kind: неизвестный ход';
+    }
+}
+
+// Проверка полей, специфичных для типа сообщения; null — всё в порядке
+function checkFields(m: Record<string, unknown>): string | null {
+    switch (m.type) {
+        case 'hello':
+            if (m.initData !== undefined && !isString(m.initData)) return 'hello.initData: ожидается строка';
+            if (m.playerId !== undefined && !isString(m.playerId, 128)) return 'hello.playerId: ожидается строка';
+            if (m.name !== undefined && !isString(m.name, 128)) return 'hello.name: ожидается строка';
+            if (m.roomId !== undefined && m.roomId !== null && !isString(m.roomId, 128)) return 'hello.roomId: ожидается строка';
+            return null;
+        case 'rename':
+            return isString(m.name, 128) ? null : 'rename.name: ожидается строка';
+        case 'rooms':
+        case 'create':
+        case 'unqueue':
+        case 'leave':
+        case 'concede':
+        case 'sit':
+        case 'stand':
+            return null;
+        case 'join':
+            return isString(m.code, 16) ? null : 'join.code: ожидается код комнаты';
+        case 'profile':
+            return m.playerId === undefined || isString(m.playerId, 128) ? null : 'profile.playerId: ожидается строка';
+        case 'leaderboard':
+            return m.limit === undefined || isInt(m.limit, 1, MAX_LEADERBOARD) ? null : `leaderboard.limit: от 1 до ${MAX_LEADERBOARD}`;
+        case 'queue':
+            if (m.variant !== undefined && !VARIANTS.includes(m.variant as Variant)) return 'queue.variant: неизвестный вариант';
+            if (m.players !== undefined && !isInt(m.players, MIN_PLAYERS, MAX_PLAYERS)) return `queue.players: от ${MIN_PLAYERS} до ${MAX_PLAYERS}`;
+            return null;
+        case 'start':
+            if (m.rules !== undefined) {
+                const error = checkRules(m.rules);
+                if (error) return error;
+            }
+            if (m.botLevel !== undefined && !BOT_LEVELS.includes(m.botLevel as BotLevel)) return 'start.botLevel: неизвестный уровень';
+            if (m.players !== undefined && !isInt(m.players, MIN_PLAYERS, MAX_PLAYERS)) return `start.players: от ${MIN_PLAYERS} до ${MAX_PLAYERS}`;
+            if (m.turnSeconds !== undefined && m.turnSeconds !== 0 && !isInt(m.turnSeconds, MIN_TURN_SECONDS, MAX_TURN_SECONDS)) {
+                return `start.turnSeconds: 0 или от ${MIN_TURN_SECONDS} до ${MAX_TURN_SECONDS}`;
+            }
+            if (m.series !== undefined && m.series !== null) {
+                if (!isObject(m.series) || !SERIES_SCORINGS.includes(m.series.scoring as SeriesScoring)) return 'start.series.scoring: wins или durak-points';
+                if (!isInt(m.series.target, 1, MAX_SERIES_TARGET)) return `start.series.target: от 1 до ${MAX_SERIES_TARGET}`;
+            }
+            if (m.spectatorDelay !== undefined && !isInt(m.spectatorDelay, 0, MAX_SPECTATOR_DELAY_S)) return `start.spectatorDelay: от 0 до ${MAX_SPECTATOR_DELAY_S}`;
+            if (m.onDisconnect !== undefined && !DISCONNECT_POLICIES.includes(m.onDisconnect as DisconnectPolicy)) return 'start.onDisconnect: bot или forfeit';
+            if (m.seed !== undefined && !isInt(m.seed, 0, 0xffffffff)) return 'start.seed: ожидается целое без знака';
+            return null;
+        case 'rematch':
+        case 'draw':
+            return typeof m.agree === 'boolean' ? null : `${m.type}.agree: ожидается true или false`;
+        case 'action':
+            return checkAction(m.action);
+        default:
+            return `Неизвестный тип сообщения: ${String(m.type)}`;
+    }
+}
+
+// Проверяет сообщение клиента, пришедшее по сети (уже разобранный JSON)
+export function parseClientMessage(raw: unknown): ParseResult {
+    if (!isObject(raw) || typeof raw.type !== 'string') return { ok: false, error: 'Сообщение без типа' };
+    if ((ROOM_TYPES as readonly string[]).includes(raw.type) && !isString(raw.roomId, 128)) {
+        return { ok: false, error: `${raw.type}: не указана комната` };
+    }
+    const error = checkFields(raw);
+    if (error) return { ok: false, error };
+    return { ok: true, msg: raw as ClientMessage };
+}
@@ -0,0 +1,72 @@
+// Генератор случайных чисел в [0, 1)
+export type Rng = () => number;
+
+// seed партии: число — 32-битный seed, заданный явно (воспроизвести партию из баг-репорта);
+// строка — 128 случайных бит в hex, так раздаются обычные партии: по своим картам такой seed не подобрать перебором
+export type Seed = number | string;
+
+// Детерминированный ГПСЧ (xoshiro128**, 128 бит состояния): одинаковый seed — одинаковая последовательность
+export function createRng(seed: Seed): Rng {
+    let [a, b, c, d] = typeof seed === 'number' ? expandSeed(seed) : hashSeed(seed);
+    // Нулевое состояние генератор не покидает
+    if ((a | b | c | d) === 0) a = 1;
+    return () => {
+        const result = Math.imul(rotl(Math.imul(b, 5), 7), 9) >>> 0;
+        const t = b << 9;
+        c ^= a;
+        d ^= b;
+        b ^= c;
+        a ^= d;
+        c ^= t;
+        d = rotl(d, 11);
+        return result / 4294967296;
+    };
+}
+
+// Случайный seed для новой партии: 128 бит из криптографического генератора
+export function randomSeed(): string {
+    const words = crypto.getRandomValues(new Uint32Array(4));
+    return Array.from(words, (w) => w.toString(16).padStart(8, '0')).join('');
+}
+
+function rotl(x: number, k: number): number {
+    return (x << k) | (x >>> (32 - k));
+}
+
+// 32-битный seed раскладывается на четыре слова состояния (splitmix32)
+function expandSeed(seed: number): number[] {
+    let x = seed >>> 0;
+    const words: number[] = [];
+    for (let i = 0; i < 4; i++) {
+        x = (x + 0x9e3779b9) | 0;
+        let z = x;
+        z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+        z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+        words.push((z ^ (z >>> 16)) >>> 0);
+    }
+    return words;
+}
+
+// Строковый seed — 128-битный хеш (cyrb128)
+function hashSeed(seed: string): number[] {
+    let h1 = 1779033703;
+    let h2 = 3144134277;
+    let h3 = 1013904242;
+    let h4 = 2773480762;
+    for (let i = 0; i < seed.length; i++) {
+        const k = seed.charCodeAt(i);
+        h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+        h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+        h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+        h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+    }
+    h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+    h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+    h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+    h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+    h1 ^= h2 ^ h3 ^ h4;
+    h2 ^= h1;
+    h3 ^= h1;
+    h4 ^= h1;
+    return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
@@ -0,0 +1,28 @@
+// Рейтинг Эло для партий между людьми
+export const INITIAL_RATING = 1500;
+const K_FACTOR = 32;
+
+// Ожидаемый счёт встречи с соперником: от 0 до 1
+export function expectedScore(rating: number, opponentRating: number): number {
+    return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+// Изменения рейтинга по итогам партии; ratings — рейтинги людей до партии.
+// Каждая пара людей — отдельная встреча: дурак проигрывает каждому, остальные между собой играют вничью.
+// K делится на число соперников, чтобы партия вчетвером весила не больше дуэли
+export function ratingChanges(ratings: Record<string, number>, durakId?: string): Record<string, number> {
+    const ids = Object.keys(ratings);
+    const changes: Record<string, number> = {};
+    if (ids.length < 2) return changes;
+    const k = K_FACTOR / (ids.length - 1);
+    for (const id of ids) {
+        let delta = 0;
+        for (const other of ids) {
+            if (other === id) continue;
+            const score = id === durakId ? 0 : other === durakId ? 1 : 0.5;
+            delta += k * (score - expectedScore(ratings[id], ratings[other]));
+        }
+        changes[id] = Math.round(delta);
+    }
+    return changes;
+}
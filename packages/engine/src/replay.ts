@@ -0,0 +1,39 @@
+import { applyAction, startGame, type GameState, type LogEntry, type SeatSpec } from './game';
+import type { Seed } from './random';
+import type { GameRules } from './rules';
+
+// Всё, что нужно для точного восстановления партии; сериализуется в JSON как есть
+export type GameRecord = {
+    seats: SeatSpec[];
+    seed: Seed;
+    rules: GameRules;
+    previousDurakId?: string;
+    log: LogEntry[];
+};
+
+export function recordOf(state: GameState): GameRecord {
+    return {
+        seats: state.players.map((p) => ({ id: p.id, name: p.name, type: p.type, botLevel: p.botLevel })),
+        seed: state.seed,
+        rules: state.rules,
+        previousDurakId: state.previousDurakId,
+        log: state.log.slice(),
+    };
+}
+
+// Восстанавливает состояние после первых upTo действий журнала (по умолчанию — всех)
+export function replay(record: GameRecord, upTo: number = record.log.length): GameState {
+    let state = startGame(record.seats, {
+        seed: record.seed,
+        rules: record.rules,
+        previousDurakId: record.previousDurakId,
+    });
+    for (const entry of record.log.slice(0, upTo)) {
+        const res = applyAction(state, entry.playerId, entry.action);
+        if (!res.ok) {
+            throw new Error(`Журнал не воспроизводится на ходе ${entry.seq}: ${res.error}`);
+        }
+        state = res.state;
+    }
+    return state;
+}
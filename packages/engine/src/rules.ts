@@ -0,0 +1,30 @@
+// Вариант игры: подкидной (по умолчанию) или переводной
+export type Variant = 'podkidnoy' | 'perevodnoy';
+
+// Размер колоды: 24 (с девятки), 36 (с шестёрки) или 52 (с двойки)
+export type DeckSize = 24 | 36 | 52;
+
+// Кто ходит первым в следующей партии: сам дурак или его сосед слева
+export type RematchLead = 'durak' | 'left-of-durak';
+
+// Настройки правил партии; передаются в startGame и хранятся в состоянии
+export type GameRules = {
+    variant: Variant;
+    deckSize: DeckSize;
+    rematchLead: RematchLead;
+    firstBoutLimit: number | null; // максимум карт в первом отбое (null — без ограничения)
+    maxAttacks: number | null; // максимум карт в любом отбое (null — только рука защитника)
+};
+
+export const DEFAULT_RULES: GameRules = {
+    variant: 'podkidnoy',
+    deckSize: 36,
+    rematchLead: 'durak',
+    firstBoutLimit: 5,
+    maxAttacks: 6,
+};
+
+// Дополняет частичные правила значениями по умолчанию
+export function resolveRules(rules: Partial<GameRules> = {}): GameRules {
+    return { ...DEFAULT_RULES, ...rules };
+}
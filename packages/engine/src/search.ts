@@ -0,0 +1,151 @@
+import {
+    applyAction,
+    legalAttacks,
+    legalDefenses,
+    legalTransfers,
+    shuffle,
+    type Action,
+    type GameState,
+} from './game';
+import { cardMemory, type CardMemory } from './memory';
+import { createRng, type Rng, type Seed } from './random';
+
+// Бюджет перебора: останавливаемся по числу итераций или по времени — что наступит раньше
+export type SearchOptions = {
+    iterations: number;
+    timeMs: number;
+    maxRolloutSteps: number; // защита от бесконечных розыгрышей
+    endgameOnly: boolean; // перебирать только при пустой колоде
+    seed?: Seed; // по умолчанию — из seed партии и номера хода
+};
+
+export const DEFAULT_SEARCH: SearchOptions = {
+    iterations: 300,
+    timeMs: 150,
+    maxRolloutSteps: 300,
+    endgameOnly: true,
+};
+
+// Политика розыгрыша: решение за любого игрока в смоделированной партии
+export type RolloutPolicy = (state: GameState, playerIndex: number) => Action | null;
+
+// Перебор с детерминизацией: раскладываем невидимые карты случайно (с учётом известного),
+// доигрываем партию политикой rollout и выбираем действие с лучшим средним исходом.
+// null — перебор не нужен (колода не пуста при endgameOnly или нет выбора).
+export function searchDecide(
+    state: GameState,
+    botIdx: number,
+    rollout: RolloutPolicy,
+    options: Partial<SearchOptions> = {},
+): Action | null {
+    const opts = { ...DEFAULT_SEARCH, ...options };
+    if (opts.endgameOnly && state.deck.length > 0) return null;
+
+    const candidates = candidateActions(state, botIdx);
+    if (candidates.length <= 1) return candidates[0] ?? null;
+
+    const rng = createRng(opts.seed ?? `${state.seed}/${state.log.length}`);
+    const memory = cardMemory(state, botIdx);
+    const botId = state.players[botIdx].id;
+    const visits = candidates.map(() => 0);
+    const rewards = candidates.map(() => 0);
+    const started = Date.now();
+
+    for (let it = 0; it < opts.iterations && Date.now() - started < opts.timeMs; it++) {
+        const arm = selectArm(visits, rewards, it);
+        const world = determinize(state, botIdx, memory, rng);
+        const res = applyAction(world, botId, candidates[arm]);
+        if (res.ok) playOut(world, rollout, opts.maxRolloutSteps);
+        visits[arm] += 1;
+        rewards[arm] += res.ok ? reward(world, botIdx) : 0;
+    }
+
+    let best = 0;
+    for (let i = 1; i < candidates.length; i++) {
+        if (mean(rewards, visits, i) > mean(rewards, visits, best)) best = i;
+    }
+    return candidates[best];
+}
+
+function cloneState(state: GameState): GameState {
+    return JSON.parse(JSON.stringify(state)) as GameState;
+}
+
+// Все действия бота, которые движок сейчас примет
+function candidateActions(state: GameState, botIdx: number): Action[] {
+    const actions: Action[] = [{ kind: 'done' }, { kind: 'take' }];
+    for (const card of legalAttacks(state, botIdx)) actions.push({ kind: 'attack', card });
+    state.table.forEach((_slot, attackIndex) => {
+        for (const card of legalDefenses(state, botIdx, attackIndex)) actions.push({ kind: 'defend', attackIndex, card });
+    });
+    for (const card of legalTransfers(state, botIdx)) actions.push({ kind: 'transfer', card });
+
+    const botId = state.players[botIdx].id;
+    return actions.filter((a) => applyAction(cloneState(state), botId, a).ok);
+}
+
+// UCB1: сначала пробуем каждое действие, затем балансируем исследование и лучший результат
+function selectArm(visits: number[], rewards: number[], total: number): number {
+    const untried = visits.indexOf(0);
+    if (untried >= 0) return untried;
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let i = 0; i < visits.length; i++) {
+        const score = rewards[i] / visits[i] + Math.sqrt((2 * Math.log(total + 1)) / visits[i]);
+        if (score > bestScore) {
+            bestScore = score;
+            best = i;
+        }
+    }
+    return best;
+}
+
+function mean(rewards: number[], visits: number[], i: number): number {
+    return visits[i] > 0 ? rewards[i] / visits[i] : -Infinity;
+}
+
+// Один правдоподобный расклад: известные карты остаются у владельцев,
+// невидимые раздаются случайно, открытый козырь — на дне колоды
+function determinize(state: GameState, botIdx: number, memory: CardMemory, rng: Rng): GameState {
+    const world = cloneState(state);
+    world.log = [];
+    const pool = shuffle(memory.unseen, rng);
+    world.players.forEach((p, idx) => {
+        if (idx === botIdx) return;
+        const known = memory.known[p.id] ?? [];
+        const hidden = Math.max(0, p.hand.length - known.length);
+        p.hand = [...known, ...pool.splice(0, hidden)];
+    });
+    if (state.deck.length > 0) {
+        world.deck = [state.trumpCard, ...pool.splice(0, state.deck.length - 1)];
+    }
+    return world;
+}
+
+// Доигрываем партию: ходит первый по кругу от главного атакующего, кому есть что делать
+function playOut(state: GameState, rollout: RolloutPolicy, maxSteps: number) {
+    const n = state.players.length;
+    for (let step = 0; step < maxSteps && state.phase !== 'finished'; step++) {
+        let acted = false;
+        for (let k = 0; k < n; k++) {
+            const idx = (state.attacker + k) % n;
+            const act = rollout(state, idx);
+            if (!act) continue;
+            if (!applyAction(state, state.players[idx].id, act).ok) return;
+            acted = true;
+            break;
+        }
+        if (!acted) return;
+    }
+}
+
+// 1 — не дурак, 0.5 — ничья, 0 — дурак; недоигранная партия оценивается по доле карт на руке
+function reward(state: GameState, botIdx: number): number {
+    const me = state.players[botIdx];
+    if (state.phase === 'finished') {
+        if (!state.durakId) return 0.5;
+        return state.durakId === me.id ? 0 : 1;
+    }
+    const total = state.players.reduce((sum, p) => sum + p.hand.length, 0);
+    return total > 0 ? 1 - me.hand.length / total : 0.5;
+}
@@ -0,0 +1,65 @@
+import type { GameState, StartOptions } from './game';
+
+// Как считается серия: 'wins' — очко каждому, кто не остался дураком, серию выигрывает первый набравший target;
+// 'durak-points' — очко дураку, серия заканчивается, когда кто-то набрал target, и выигрывают набравшие меньше всех
+export type SeriesScoring = 'wins' | 'durak-points';
+
+export type SeriesConfig = { scoring: SeriesScoring; target: number };
+
+export type SeriesState = SeriesConfig & {
+    scores: Record<string, number>; // по id игрока
+    games: number; // сыграно партий, включая ничьи
+    lastDurakId?: string; // дурак последней партии с дураком — он и ведёт следующую раздачу
+    finished: boolean;
+    winnerIds: string[]; // заполняется по окончании серии
+    loserId?: string; // в 'durak-points' — кто первым набрал target
+};
+
+export function startSeries(playerIds: string[], config: SeriesConfig): SeriesState {
+    return {
+        ...config,
+        scores: Object.fromEntries(playerIds.map((id) => [id, 0])),
+        games: 0,
+        finished: false,
+        winnerIds: [],
+    };
+}
+
+// Те же ли игроки за столом, что и в серии
+export function sameSeriesPlayers(series: SeriesState, playerIds: string[]): boolean {
+    const ids = Object.keys(series.scores);
+    return ids.length === playerIds.length && playerIds.every((id) => id in series.scores);
+}
+
+// Учитывает законченную партию; серию не меняет, если партия не закончена или серия уже решена
+export function recordSeriesGame(series: SeriesState, state: GameState): SeriesState {
+    if (series.finished || state.phase !== 'finished') return series;
+    const scores = { ...series.scores };
+    const durakId = state.durakId;
+    if (durakId) {
+        for (const id of Object.keys(scores)) {
+            if (series.scoring === 'wins' ? id !== durakId : id === durakId) scores[id]++;
+        }
+    }
+    const next: SeriesState = {
+        ...series,
+        scores,
+        games: series.games + 1,
+        lastDurakId: durakId ?? series.lastDurakId,
+    };
+
+    const ids = Object.keys(scores);
+    const top = Math.max(...ids.map((id) => scores[id]));
+    if (top < series.target) return next;
+    if (series.scoring === 'wins') {
+        // Несколько игроков могут дойти до цели одновременно — тогда побеждают все они
+        return { ...next, finished: true, winnerIds: ids.filter((id) => scores[id] === top) };
+    }
+    const low = Math.min(...ids.map((id) => scores[id]));
+    return { ...next, finished: true, winnerIds: ids.filter((id) => scores[id] === low), loserId: durakId };
+}
+
+// Раздача следующей партии серии: первым ходит (или соседствует с ним) последний дурак
+export function nextDealOptions(series: SeriesState): Pick<StartOptions, 'previousDurakId'> {
+    return { previousDurakId: series.lastDurakId };
+}
@@ -0,0 +1,78 @@
+import type { BotLevel, Card, GameState, LogEntry, Phase, PlayerType, Suit, TableSlot } from './game';
+import type { GameRules } from './rules';
+
+// Что о сопернике видно всем: имя, число карт и открыто известные карты
+export type PlayerSummary = {
+    id: string;
+    name: string;
+    type: PlayerType;
+    botLevel?: BotLevel;
+    handCount: number;
+    known: Card[];
+};
+
+// Состояние глазами одного игрока: без порядка колоды, чужих рук и seed
+export type GameView = {
+    you: number; // index in players; -1 — зритель
+    hand: Card[]; // у зрителя пусто
+    players: PlayerSummary[];
+    deckCount: number;
+    trumpSuit: Suit;
+    trumpCard: Card;
+    attacker: number;
+    defender: number;
+    passed: number[];
+    bout: number;
+    table: TableSlot[];
+    discardCount: number;
+    phase: Phase;
+    rules: GameRules;
+    revealedTrump?: { playerId: string; card: Card };
+    log: LogEntry[];
+    finishOrder: string[];
+    durakId?: string;
+    message?: string;
+};
+
+// null — игрок не участвует в партии
+export function viewFor(state: GameState, playerId: string): GameView | null {
+    const you = state.players.findIndex((p) => p.id === playerId);
+    if (you < 0) return null;
+    return buildView(state, you, state.players[you].hand.slice());
+}
+
+// Стол глазами зрителя: число карт и открыто известные карты, но ни одной скрытой
+export function spectatorView(state: GameState): GameView {
+    return buildView(state, -1, []);
+}
+
+function buildView(state: GameState, you: number, hand: Card[]): GameView {
+    return {
+        you,
+        hand,
+        players: state.players.map((p) => ({
+            id: p.id,
+            name: p.name,
+            type: p.type,
+            botLevel: p.botLevel,
+            handCount: p.hand.length,
+            known: (state.known[p.id] ?? []).slice(),
+        })),
+        deckCount: state.deck.length,
+        trumpSuit: state.trumpSuit,
+        trumpCard: state.trumpCard,
+        attacker: state.attacker,
+        defender: state.defender,
+        passed: state.passed.slice(),
+        bout: state.bout,
+        table: state.table.map((s) => ({ ...s })),
+        discardCount: state.discard.length,
+        phase: state.phase,
+        rules: state.rules,
+        revealedTrump: state.revealedTrump,
+        log: state.log.slice(),
+        finishOrder: state.finishOrder.slice(),
+        durakId: state.durakId,
+        message: state.message,
+    };
+}
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { cardsConserved, type BotLevel } from '../src';
+import { playBots } from './helpers';
+
+const TABLES: BotLevel[][] = [
+    ['easy', 'easy'],
+    ['easy', 'medium', 'hard'],
+    ['medium', 'hard', 'easy', 'medium'],
+    ['hard', 'easy', 'medium', 'hard', 'easy', 'expert'],
+];
+
+test('в партиях ботов ни одна карта не теряется и не появляется дважды', () => {
+    for (const [t, levels] of TABLES.entries()) {
+        for (let seed = 1; seed <= 5; seed++) {
+            const final = playBots(levels, seed * 100 + t, (state) => {
+                assert.ok(cardsConserved(state), `стол ${t}, seed ${seed * 100 + t}, ход ${state.log.length}`);
+            });
+            assert.equal(final.phase, 'finished');
+            // Из игры выходят все, кроме дурака
+            assert.equal(final.finishOrder.length + (final.durakId ? 1 : 0), levels.length);
+        }
+    }
+});
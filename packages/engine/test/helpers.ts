@@ -0,0 +1,50 @@
+import { applyAction, botDecide, startGame, type BotLevel, type Card, type GameRules, type GameState, type Seed } from '../src';
+
+// '7♠' → { rank: '7', suit: '♠' }
+export function card(text: string): Card {
+    return { rank: text.slice(0, -1), suit: text.slice(-1) } as Card;
+}
+
+export function cards(text: string): Card[] {
+    return text.split(' ').map(card);
+}
+
+// Стол с заданными руками: колода и козырь из seed, руки и роли — как в тесте.
+// Карты при этом не сохраняются, такие партии годятся только для проверки правил хода
+export function table(hands: string[], rules: Partial<GameRules> = {}, trumpSuit: Card['suit'] = '♦'): GameState {
+    const state = startGame(
+        hands.map((_, i) => ({ id: 'p' + i, name: 'P' + i, type: 'human' })),
+        { seed: 1, rules },
+    );
+    state.players.forEach((p, i) => (p.hand = cards(hands[i])));
+    state.trumpSuit = trumpSuit;
+    state.attacker = 0;
+    state.defender = 1;
+    state.revealedTrump = undefined;
+    return state;
+}
+
+// Партия ботов до конца; after вызывается после каждого принятого действия
+export function playBots(levels: BotLevel[], seed: Seed, after: (state: GameState) => void = () => {}): GameState {
+    let state = startGame(
+        levels.map((botLevel, i) => ({ id: 'b' + i, name: 'B' + i, type: 'bot', botLevel })),
+        { seed },
+    );
+    const n = state.players.length;
+    while (state.phase !== 'finished') {
+        let acted = false;
+        // Опрашиваем по кругу начиная с главного атакующего, как сервер
+        for (let step = 0; step < n && !acted; step++) {
+            const idx = (state.attacker + step) % n;
+            const action = botDecide(state, idx, { search: { iterations: 20, timeMs: 5, seed: 1 } });
+            if (!action) continue;
+            const res = applyAction(state, state.players[idx].id, action);
+            if (!res.ok) throw new Error(`Бот ${idx}: ${res.error}`);
+            state = res.state;
+            acted = true;
+        }
+        if (!acted) throw new Error('Никто из ботов не может сходить');
+        after(state);
+    }
+    return state;
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { recordOf, replay, startGame } from '../src';
+import { playBots } from './helpers';
+
+const seats = ['a', 'b', 'c'].map((id) => ({ id, name: id, type: 'human' as const }));
+
+test('одинаковый seed даёт одинаковую раздачу', () => {
+    const first = startGame(seats, { seed: 42 });
+    const second = startGame(seats, { seed: 42 });
+    assert.deepEqual(second, first);
+    assert.notDeepEqual(startGame(seats, { seed: 43 }).deck, first.deck);
+});
+
+test('случайный seed — 128 бит в hex и сохраняется в состоянии', () => {
+    const state = startGame(seats);
+    assert.match(String(state.seed), /^[0-9a-f]{32}$/);
+    assert.deepEqual(startGame(seats, { seed: state.seed }).deck, state.deck);
+});
+
+test('журнал воспроизводит партию ботов целиком и на любом ходе', () => {
+    const states: string[] = [];
+    const final = playBots(['easy', 'medium', 'hard'], 'replay-test', (state) => states.push(JSON.stringify(state)));
+    const record = JSON.parse(JSON.stringify(recordOf(final)));
+    assert.deepEqual(replay(record), final);
+    for (const upTo of [1, Math.floor(states.length / 2), states.length - 1]) {
+        assert.equal(JSON.stringify(replay(record, upTo)), states[upTo - 1]);
+    }
+});
+
+test('испорченный журнал не воспроизводится', () => {
+    const record = recordOf(playBots(['easy', 'easy'], 7));
+    record.log[0] = { ...record.log[0], playerId: record.log[0].playerId === 'b0' ? 'b1' : 'b0' };
+    assert.throws(() => replay(record), /Журнал не воспроизводится на ходе 1/);
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { applyAction, awaitedPlayers, legalAttacks, type Action } from '../src';
+import { card, table } from './helpers';
+
+function act(state: ReturnType<typeof table>, idx: number, action: Action) {
+    return applyAction(state, state.players[idx].id, action);
+}
+
+test('подкидывающие ждут паса главного атакующего', () => {
+    const state = table(['7♠ 8♣', '9♠ 10♣ J♣', '7♥ 6♣']);
+    assert.equal(act(state, 2, { kind: 'attack', card: card('7♥') }).ok, false);
+    assert.ok(act(state, 0, { kind: 'attack', card: card('7♠') }).ok);
+    assert.ok(act(state, 1, { kind: 'defend', attackIndex: 0, card: card('9♠') }).ok);
+
+    // Всё побито: очередь сначала за главным атакующим
+    assert.deepEqual(awaitedPlayers(state), [0]);
+    assert.deepEqual(legalAttacks(state, 2), []);
+    const early = act(state, 2, { kind: 'attack', card: card('7♥') });
+    assert.equal(early.ok, false);
+
+    assert.ok(act(state, 0, { kind: 'done' }).ok);
+    assert.deepEqual(awaitedPlayers(state), [2]);
+    assert.ok(act(state, 2, { kind: 'attack', card: card('7♥') }).ok);
+    // Новая карта снимает пасы: после защиты приоритет снова у главного атакующего
+    assert.deepEqual(state.passed, []);
+    assert.equal(state.phase, 'defend');
+});
+
+test('взять можно только непобитую карту, и один раз', () => {
+    const state = table(['7♠ 8♣', '9♠ 10♣', '6♣']);
+    assert.equal(act(state, 1, { kind: 'take' }).ok, false);
+    assert.ok(act(state, 0, { kind: 'attack', card: card('7♠') }).ok);
+    assert.ok(act(state, 1, { kind: 'take' }).ok);
+    assert.equal(state.phase, 'throw');
+    assert.equal(act(state, 1, { kind: 'take' }).ok, false);
+    assert.ok(act(state, 0, { kind: 'done' }).ok);
+    assert.equal(act(state, 0, { kind: 'done' }).ok, false, 'повторный пас не принимается');
+});
+
+test('перевод: переводящий становится атакующим, защищается следующий', () => {
+    const state = table(['7♠ 8♣', '7♥ 10♣', '6♣ J♠ Q♠'], { variant: 'perevodnoy' });
+    assert.ok(act(state, 0, { kind: 'attack', card: card('7♠') }).ok);
+    assert.ok(act(state, 1, { kind: 'transfer', card: card('7♥') }).ok);
+    assert.equal(state.attacker, 1);
+    assert.equal(state.defender, 2);
+    assert.equal(state.table.length, 2);
+    assert.equal(state.phase, 'defend');
+});
+
+test('в подкидном переводить нельзя', () => {
+    const state = table(['7♠ 8♣', '7♥ 10♣', '6♣ J♠']);
+    assert.ok(act(state, 0, { kind: 'attack', card: card('7♠') }).ok);
+    const res = act(state, 1, { kind: 'transfer', card: card('7♥') });
+    assert.equal(res.ok, false);
+    assert.equal(state.defender, 1);
+});
+
+test('нельзя перевести, если у следующего не хватит карт', () => {
+    const state = table(['7♠ 8♣', '7♥ 10♣', '6♣'], { variant: 'perevodnoy' });
+    assert.ok(act(state, 0, { kind: 'attack', card: card('7♠') }).ok);
+    assert.equal(act(state, 1, { kind: 'transfer', card: card('7♥') }).ok, false);
+});
+
+test('лимит первого отбоя', () => {
+    const state = table(['6♠ 6♥ 6♣', '9♠ 10♣ J♣ Q♣', '8♣'], { firstBoutLimit: 1 });
+    assert.ok(act(state, 0, { kind: 'attack', card: card('6♠') }).ok);
+    assert.ok(act(state, 1, { kind: 'take' }).ok);
+    const res = act(state, 0, { kind: 'attack', card: card('6♥') });
+    assert.equal(res.ok, false);
+    assert.deepEqual(legalAttacks(state, 0), []);
+});
+
+test('лимит карт в отбое после первого', () => {
+    const state = table(['6♠ 6♥ 6♣', '9♠ 10♣ J♣ Q♣', '8♣'], { maxAttacks: 2 });
+    state.bout = 1;
+    assert.ok(act(state, 0, { kind: 'attack', card: card('6♠') }).ok);
+    assert.ok(act(state, 1, { kind: 'take' }).ok);
+    assert.ok(act(state, 0, { kind: 'attack', card: card('6♥') }).ok);
+    assert.equal(act(state, 0, { kind: 'attack', card: card('6♣') }).ok, false);
+});
+
+test('непобитых карт не больше, чем у защитника на руке', () => {
+    const state = table(['6♠ 6♥ 6♣', '9♠', '8♣']);
+    state.bout = 1;
+    assert.ok(act(state, 0, { kind: 'attack', card: card('6♠') }).ok);
+    assert.ok(act(state, 1, { kind: 'take' }).ok);
+    const res = act(state, 0, { kind: 'attack', card: card('6♥') });
+    assert.equal(res.ok, false);
+    assert.match(res.ok ? '' : res.error, /руке защитника/);
+});
@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { ClientMessage } from '@durak/engine';
+
+// Кто стоит за подключением: проверенный пользователь Telegram или локальный игрок в dev-режиме
+export type Identity = {
+    playerId: string;
+    name: string;
+    source: 'telegram' | 'dev';
+};
+
+export type AuthResult = { ok: true; identity: Identity } | { ok: false; error: string };
+
+export type AuthConfig = {
+    botToken?: string; // без токена подписи проверять нечем — работает только dev-режим
+    devBypass: boolean; // доверять playerId из сообщения (локальная отладка)
+    maxAgeS: number; // сколько живёт подпись initData
+};
+
+// Telegram: secret = HMAC_SHA256("WebAppData", token), hash = HMAC_SHA256(secret, data_check_string)
+export function verifyInitData(initData: string, botToken: string, maxAgeS: number, now: number = Date.now()): AuthResult {
+    const params = new URLSearchParams(initData);
+    const hash = params.get('hash');
+    if (!hash) return { ok: false, error: 'initData без подписи' };
+    params.delete('hash');
+
+    const dataCheckString = [...params.entries()]
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([k, v]) => `${k}=${v}`)
+        .join('\n');
+    const secret = createHmac('sha256', 'WebAppData').update(botToken).digest();
+    const expected = createHmac('sha256', secret).update(dataCheckString).digest();
+    const actual = Buffer.from(hash, 'hex');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return { ok: false, error: 'Неверная подпись initData' };
+    }
+
+    const authDate = Number(params.get('auth_date'));
+    if (!Number.isFinite(authDate) || now / 1000 - authDate > maxAgeS) {
+        return { ok: false, error: 'initData устарели, перезапустите приложение' };
+    }
+
+    let user: Partial<TelegramUser> | null;
+    try {
+        user = JSON.parse(params.get('user') ?? '');
+    } catch {
+        return { ok: false, error: 'В initData нет пользователя' };
+    }
+    if (!user || typeof user.id !== 'number') return { ok: false, error: 'В initData нет пользователя' };
+
+    return { ok: true, identity: { playerId: telegramPlayerId(user.id), name: telegramName(user), source: 'telegram' } };
+}
+
+// Пользователь Telegram в том виде, в каком он приходит в initData и в обновлениях бота
+export type TelegramUser = { id: number; first_name?: string; last_name?: string; username?: string };
+
+export function telegramPlayerId(userId: number): string {
+    return `tg-${userId}`;
+}
+
+export function telegramName(user: Partial<TelegramUser>): string {
+    return [user.first_name, user.last_name].filter(Boolean).join(' ') || user.username || 'Игрок';
+}
+
+// Проверка первого сообщения подключения (hello)
+export function authenticate(msg: Extract<ClientMessage, { type: 'hello' }>, config: AuthConfig): AuthResult {
+    if (msg.initData && config.botToken) {
+        return verifyInitData(msg.initData, config.botToken, config.maxAgeS);
+    }
+    if (config.devBypass) {
+        if (!msg.playerId) return { ok: false, error: 'playerId is required' };
+        // Префикс не даёт dev-игроку выдать себя за пользователя Telegram
+        return { ok: true, identity: { playerId: `dev-${msg.playerId}`, name: 'Игрок', source: 'dev' } };
+    }
+    return { ok: false, error: 'Нужна авторизация через Telegram' };
+}
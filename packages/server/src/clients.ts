@@ -0,0 +1,24 @@
+import type { WebSocket } from 'ws';
+import type { ServerMessage } from '@durak/engine';
+import type { Identity } from './auth';
+
+// Подключение: одно на вкладку; игрок и имя известны после успешного hello
+export type Client = {
+    id: string;
+    ws: WebSocket;
+    playerId?: string;
+    name?: string;
+    source?: Identity['source'];
+    roomId?: string;
+};
+
+export const clients = new Map<string, Client>();
+
+export function sendTo(clientId: string, payload: ServerMessage) {
+    const c = clients.get(clientId);
+    if (c && c.ws.readyState === c.ws.OPEN) c.ws.send(JSON.stringify(payload));
+}
+
+export function sendError(clientId: string, message: string, code?: 'version' | 'invalid') {
+    sendTo(clientId, { type: 'error', message, code });
+}
@@ -1,175 +1,506 @@
-import { WebSocketServer, type WebSocket } from 'ws';
+import { WebSocketServer } from 'ws';
 import {
-    startGame,
+    PROTOCOL_VERSION,
     applyAction,
-    botDecide,
-    type GameState,
-    type Action,
+    nextDealOptions,
+    parseClientMessage,
+    resolveRules,
+    type ClientMessage,
+    type PlayerProfile,
+    type RoomMessage,
 } from '@durak/engine';
+import { authenticate, type AuthConfig } from './auth';
+import { clients, sendError, sendTo, type Client } from './clients';
+import {
+    armTurn,
+    beginSeries,
+    clampPlayerCount,
+    clearMissedTurns,
+    concede,
+    continueSeries,
+    isStillPlaying,
+    expireAway,
+    expireTurn,
+    markAway,
+    markBack,
+    onMatchFinished,
+    processBotTurns,
+    resumeBotTurns,
+    startMatch,
+} from './match';
+import { dequeue, enqueue, queuedEntries, queueStatus, takeMatches } from './matchmaking';
+import { forgetSpectatorFrames, publishMenu, publishState, sendLobby, sendSpectatorFrame } from './publish';
+import { answerDraw, clearDrawOffer, needsRematchVote, rematchReady, voteRematch } from './negotiation';
+import { getProfile, leaderboard, recordMatch, useStatsStore } from './stats';
+import { createFileStore, createMemoryStore, type StoredRoom } from './storage';
+import { startTelegramBot } from './telegram';
+import {
+    allRooms,
+    collectIdleRooms,
+    createRoom,
+    findRoomByCode,
+    getRoom,
+    humanSeats,
+    isInGame,
+    seatOf,
+    sitDown,
+    standUp,
+    touchRoom,
+    useStore,
+    type Room,
+} from './rooms';
 
-type Client = { id: string; ws: WebSocket; playerId?: string };
-type Room = {
-    id: string;
-    clients: Map<string, Client>;
-    state: GameState | null;
-    currentPlayerId: string | null; // human playerId (persistent)
-    botId: string | null;
-};
+// Комнаты, партии и статистика игроков переживают перезапуск: STORAGE=memory отключает сохранение
+const IN_MEMORY = process.env.STORAGE === 'memory';
+const STORAGE_DIR = process.env.STORAGE_DIR ?? 'data/rooms';
+const restored = useStore(IN_MEMORY ? createMemoryStore<StoredRoom>((r) => r.id) : createFileStore<StoredRoom>(STORAGE_DIR, (r) => r.id));
+if (restored > 0) console.log(`[server] Restored ${restored} room(s) from ${STORAGE_DIR}`);
+
+const PLAYERS_DIR = process.env.PLAYERS_DIR ?? 'data/players';
+const keyOfProfile = (p: PlayerProfile) => p.playerId;
+const profiles = useStatsStore(IN_MEMORY ? createMemoryStore(keyOfProfile) : createFileStore(PLAYERS_DIR, keyOfProfile));
+if (profiles > 0) console.log(`[server] Loaded ${profiles} player profile(s) from ${PLAYERS_DIR}`);
+onMatchFinished(recordMatch);
+
+// Сколько держим место за отключившимся игроком, прежде чем отдать его боту или засчитать поражение
+const DISCONNECT_GRACE_MS = Number(process.env.DISCONNECT_GRACE_S ?? 60) * 1000;
+
+// После перезапуска на связи никого нет: каждому сидящему за столом даём время вернуться,
+// а часы хода заводим заново — сохранённый срок истёк, пока сервер лежал
+for (const room of allRooms()) {
+    for (const seat of humanSeats(room)) markAway(room, seat.playerId, DISCONNECT_GRACE_MS);
+    if (isInGame(room)) armTurn(room);
+}
 
 const PORT = Number(process.env.PORT ?? 8080);
 const wss = new WebSocketServer({ port: PORT }, () => {
     console.log(`[server] WebSocket listening on ws://localhost:${PORT}`);
 });
 
-const room: Room = {
-    id: 'room-1',
-    clients: new Map(),
-    state: null,
-    currentPlayerId: null,
-    botId: null,
+// Пустая комната удаляется, если в ней ничего не происходило столько времени
+const ROOM_IDLE_MS = Number(process.env.ROOM_IDLE_MS ?? 30 * 60 * 1000);
+
+setInterval(() => {
+    for (const room of collectIdleRooms(ROOM_IDLE_MS)) {
+        forgetSpectatorFrames(room.id);
+        console.log(`[server] Room ${room.code} removed (idle)`);
+    }
+}, 60 * 1000).unref();
+
+// Доверять playerId клиента можно только явно (AUTH_DEV=1, локальная отладка): забытый BOT_TOKEN не должен открывать вход всем
+const AUTH: AuthConfig = {
+    botToken: process.env.BOT_TOKEN || undefined,
+    devBypass: process.env.AUTH_DEV === '1',
+    maxAgeS: Number(process.env.INIT_DATA_MAX_AGE_S ?? 24 * 60 * 60),
 };
+if (!AUTH.botToken && !AUTH.devBypass) {
+    console.error('[server] BOT_TOKEN is not set: nothing to verify initData with. Set BOT_TOKEN, or AUTH_DEV=1 for local testing');
+    process.exit(1);
+}
+if (AUTH.devBypass) console.warn('[server] Auth dev mode: unsigned playerId is accepted');
 
-function ensureBotId() {
-    if (!room.botId) room.botId = 'bot-' + Math.random().toString(36).slice(2);
+// Бот-компаньон: /play, inline-приглашения и итоги партий в чат
+if (AUTH.botToken && process.env.MINI_APP_URL) {
+    startTelegramBot({
+        token: AUTH.botToken,
+        apiBase: process.env.TELEGRAM_API_BASE ?? 'https://api.telegram.org',
+        miniAppUrl: process.env.MINI_APP_URL,
+        pollTimeoutS: Number(process.env.TELEGRAM_POLL_TIMEOUT_S ?? 25),
+    });
 }
 
-function sendTo(clientId: string, payload: unknown) {
-    const c = room.clients.get(clientId);
-    if (c && c.ws.readyState === c.ws.OPEN) c.ws.send(JSON.stringify(payload));
+// Быстрая игра: если людей не хватает, через столько времени за стол сядут боты
+const QUEUE_BOT_FALLBACK_MS = Number(process.env.QUEUE_BOT_FALLBACK_MS ?? 30 * 1000);
+
+setInterval(() => runMatchmaking(), 1000).unref();
+
+// Часы комнат: у кого вышло время на ход, за того ходит сервер (TURN_TIME_S задаёт время по умолчанию);
+// за не вернувшегося вовремя играет бот или ему засчитывается поражение; недоигранные ходы ботов продолжаются
+setInterval(() => {
+    const now = Date.now();
+    for (const room of allRooms()) {
+        if (expireAway(room, now)) {
+            console.log(`[server] Room ${room.code}: disconnected player(s) replaced (${room.onDisconnect})`);
+            publishState(room);
+        }
+        if (resumeBotTurns(room)) publishState(room);
+        if (!room.turn || !isInGame(room) || now < room.turn.deadline) continue;
+        console.log(`[server] Room ${room.code}: turn timed out for ${room.turn.playerIds.join(', ')}`);
+        expireTurn(room);
+        publishState(room);
+    }
+}, 1000).unref();
+
+function displayName(raw: unknown): string {
+    const name = typeof raw === 'string' ? raw.trim().slice(0, 32) : '';
+    return name || 'Игрок';
 }
 
-function broadcast(payload: unknown) {
-    for (const cid of room.clients.keys()) sendTo(cid, payload);
+// Клиент входит в комнату (и выходит из прежней, если был в другой)
+function joinRoom(client: Client, room: Room) {
+    if (client.roomId && client.roomId !== room.id) leaveRoom(client);
+    client.roomId = room.id;
+    room.clients.add(client.id);
+    // Вернувшийся игрок снова управляет своим местом
+    if (client.playerId) markBack(room, client.playerId);
+    touchRoom(room);
 }
 
-function publishMenu() {
-    for (const cid of room.clients.keys()) {
-        sendTo(cid, { type: 'menu', you: room.currentPlayerId });
+// Клиент уходит из комнаты — закрыв соединение или перейдя в другую. Место за столом не бросаем сразу:
+// соперникам показываем, что игрок отключился, и ждём его, как при обрыве связи
+function leaveRoom(client: Client) {
+    const room = client.roomId ? getRoom(client.roomId) : undefined;
+    client.roomId = undefined;
+    if (!room) return;
+    room.clients.delete(client.id);
+    touchRoom(room);
+    const playerId = client.playerId;
+    const stillHere = [...clients.values()].some((c) => c.id !== client.id && c.playerId === playerId && c.roomId === room.id);
+    if (playerId && seatOf(room, playerId) && !stillHere) {
+        markAway(room, playerId, DISCONNECT_GRACE_MS);
+        if (inMatch(room, playerId)) publishState(room);
+        else publishMenu(room);
+    } else if (isInGame(room)) {
+        // Ушёл зритель — обновляем список зрителей у игроков
+        publishState(room);
     }
 }
 
-function publishState() {
-    if (!room.state) return;
-    for (const cid of room.clients.keys()) {
-        sendTo(cid, { type: 'state', you: room.currentPlayerId, state: room.state });
+function inMatch(room: Room, playerId: string): boolean {
+    return !!room.state && room.state.players.some((p) => p.id === playerId);
+}
+
+function publishQueue() {
+    for (const entry of queuedEntries()) {
+        const status = queueStatus(entry.playerId, QUEUE_BOT_FALLBACK_MS);
+        if (status) sendTo(entry.clientId, { type: 'queue', ...status });
     }
 }
 
-function processBotTurns() {
-    if (!room.state || !room.botId) return;
-    let guard = 50;
-    while (guard-- > 0) {
-        const act = botDecide(room.state);
-        if (!act) break;
-        const res = applyAction(room.state, room.botId, act);
-        room.state = res.state;
-        if (!res.ok) {
-            console.log('[bot] action error:', res.error);
-            break;
+// Собранные очередью столы становятся обычными комнатами с уже начатой партией
+function runMatchmaking() {
+    for (const match of takeMatches(QUEUE_BOT_FALLBACK_MS)) {
+        const room = createRoom(match.entries[0].playerId);
+        room.rules = resolveRules({ variant: match.variant });
+        room.botLevel = 'medium';
+        room.playerCount = match.players;
+        for (const entry of match.entries) {
+            const client = clients.get(entry.clientId);
+            if (client) joinRoom(client, room);
+            sitDown(room, entry.playerId, entry.name);
         }
-        if (act.kind === 'attack' || act.kind === 'defend' || act.kind === 'take' || act.kind === 'done') break;
-        if (room.state.phase === 'finished') break;
+        try {
+            startMatch(room);
+        } catch (e) {
+            console.log(`[server] Room ${room.code}: quick game failed to start:`, e);
+            continue;
+        }
+        console.log(`[server] Room ${room.code}: quick game for ${match.entries.length} player(s), ${match.players} seats, variant: ${match.variant}`);
+        processBotTurns(room);
+        armTurn(room);
+        publishState(room);
     }
+    publishQueue();
 }
 
-wss.on('connection', (ws) => {
-    const id = Math.random().toString(36).slice(2);
-    room.clients.set(id, { id, ws });
-    console.log(`[server] Client connected: ${id}`);
-    ensureBotId();
+// Ответ на вход в комнату: партия, если игрок в ней участвует, иначе меню
+function greet(client: Client, room: Room) {
+    if (inMatch(room, client.playerId!)) publishState(room);
+    else if (!isInGame(room)) publishMenu(room);
+    else {
+        // Идёт чужая партия — смотрим её как зритель, а игроки видят нового зрителя
+        publishState(room);
+        if (room.spectatorDelay > 0) sendSpectatorFrame(client.id, room);
+    }
+}
 
-    // Ждём hello с playerId
-    ws.on('message', (raw) => {
-        let msg: any;
-        try { msg = JSON.parse(String(raw)); } catch { return; }
+function handleMessage(client: Client, playerId: string, msg: ClientMessage) {
+    const id = client.id;
+    // Любой переход в лобби или комнату снимает игрока с очереди
+    if (msg.type === 'hello' || msg.type === 'create' || msg.type === 'join') dequeue(playerId);
 
-        // Все сообщения должны содержать playerId
-        const playerId: string | undefined = msg?.playerId;
-        if (!playerId) {
-            sendTo(id, { type: 'error', message: 'playerId is required' });
-            return;
-        }
-        const client = room.clients.get(id);
-        if (client) client.playerId = playerId;
-
-        if (msg?.type === 'hello') {
-            // Если есть игра и в ней есть этот playerId — просто отдаем state
-            if (room.state && room.state.players.some((p) => p.id === playerId)) {
-                room.currentPlayerId = playerId;
-                publishState();
-            } else if (!room.state) {
-                // Нет игры — показываем меню
-                room.currentPlayerId = playerId;
-                publishMenu();
+    switch (msg.type) {
+        case 'hello': {
+            sendTo(id, { type: 'hello', v: PROTOCOL_VERSION, you: playerId, name: client.name ?? 'Игрок' });
+            // Переподключение: возвращаем в комнату, если она ещё жива, иначе — в лобби
+            const room = msg.roomId ? getRoom(msg.roomId) : undefined;
+            if (room) {
+                joinRoom(client, room);
+                greet(client, room);
             } else {
-                // Есть игра, но другой игрок — показываем меню (как зрителю)
-                sendTo(id, { type: 'menu', you: room.currentPlayerId });
+                leaveRoom(client);
+                sendLobby(id);
             }
             return;
         }
 
-        if (msg?.type === 'start') {
-            room.currentPlayerId = playerId;
-            ensureBotId();
-            room.state = startGame(playerId, room.botId!); // human id = playerId
-            console.log('[server] Game started. Trump:', room.state.trumpSuit);
-            publishState();
+        case 'rename':
+            // В dev-режиме имя задаёт сам клиент; у пользователей Telegram — из профиля
+            if (client.source !== 'dev') sendError(id, 'Имя берётся из профиля Telegram');
+            else client.name = displayName(msg.name);
+            return;
+
+        case 'rooms':
+            sendLobby(id);
+            return;
+
+        case 'profile':
+            sendTo(id, { type: 'profile', profile: getProfile(msg.playerId ?? playerId) });
+            return;
+
+        case 'leaderboard':
+            sendTo(id, { type: 'leaderboard', entries: leaderboard(msg.limit ?? 20) });
+            return;
+
+        case 'queue':
+            if (client.roomId) {
+                sendError(id, 'Сначала выйдите из комнаты');
+                return;
+            }
+            enqueue({
+                playerId,
+                clientId: id,
+                name: displayName(client.name),
+                variant: msg.variant ?? 'podkidnoy',
+                players: clampPlayerCount(msg.players),
+                joinedAt: Date.now(),
+            });
+            runMatchmaking();
+            return;
+
+        case 'unqueue':
+            dequeue(playerId);
+            publishQueue();
+            sendLobby(id);
+            return;
+
+        case 'create': {
+            const room = createRoom(playerId);
+            joinRoom(client, room);
+            sitDown(room, playerId, displayName(client.name));
+            console.log(`[server] Room ${room.code} created by ${playerId}`);
+            greet(client, room);
             return;
         }
 
-        if (msg?.type === 'reset') {
-            room.currentPlayerId = playerId;
-            ensureBotId();
-            room.state = startGame(playerId, room.botId!);
-            console.log('[server] Game reset. Trump:', room.state.trumpSuit);
-            publishState();
+        case 'join': {
+            const room = findRoomByCode(msg.code);
+            if (!room) {
+                sendError(id, 'Комната с таким кодом не найдена');
+                return;
+            }
+            joinRoom(client, room);
+            // Если мест нет или партия идёт — входим без места
+            if (!inMatch(room, playerId)) sitDown(room, playerId, displayName(client.name));
+            greet(client, room);
             return;
         }
 
-        if (msg?.type === 'leave') {
-            if (room.currentPlayerId === playerId) {
-                room.state = null;
+        default: {
+            // Остальные сообщения относятся к комнате, в которой находится клиент
+            const room = client.roomId ? getRoom(client.roomId) : undefined;
+            if (!room || room.id !== msg.roomId) {
+                sendError(id, 'Вы не в этой комнате');
+                return;
             }
-            publishMenu();
+            touchRoom(room);
+            handleRoomMessage(client, playerId, room, msg);
+        }
+    }
+}
+
+function handleRoomMessage(client: Client, playerId: string, room: Room, msg: RoomMessage) {
+    const id = client.id;
+    switch (msg.type) {
+        case 'sit':
+        case 'stand': {
+            const error = msg.type === 'sit' ? sitDown(room, playerId, displayName(client.name)) : standUp(room, playerId);
+            if (error) sendError(id, error);
+            else publishMenu(room);
             return;
         }
 
-        if (msg?.type === 'concede') {
-            if (!room.state) return;
-            if (room.currentPlayerId !== playerId) {
-                sendTo(id, { type: 'error', message: 'Сдаться может только активный игрок' });
+        case 'start':
+        case 'rematch': {
+            if (isInGame(room)) {
+                sendError(id, 'Партия уже идёт');
                 return;
             }
-            room.state.phase = 'finished';
-            room.state.winnerId = room.botId!;
-            room.state.message = 'Вы сдались. Бот победил';
-            publishState();
+            if (!seatOf(room, playerId)) {
+                sendError(id, 'Сначала займите место за столом');
+                return;
+            }
+            // Настраивает партию хозяин; новую партию после окончания начинают, когда согласны все сидящие за столом
+            if (msg.type === 'start' && room.hostId !== playerId) {
+                sendError(id, 'Начать партию может только хозяин комнаты');
+                return;
+            }
+            if (msg.type === 'start' && needsRematchVote(room)) {
+                sendError(id, 'Новая партия начнётся, когда все за столом согласятся на реванш');
+                return;
+            }
+            // Зная seed, можно заранее знать все руки и колоду: свой seed — только для отладки или игры с ботами
+            if (msg.type === 'start' && msg.seed !== undefined && client.source !== 'dev' && humanSeats(room).length > 1) {
+                sendError(id, 'Задать seed можно только в игре с ботами');
+                return;
+            }
+            let previousDurakId: string | undefined;
+            let seed: number | undefined;
+            if (msg.type === 'start') {
+                room.rules = resolveRules(msg.rules);
+                room.botLevel = msg.botLevel ?? 'easy';
+                room.playerCount = clampPlayerCount(Math.max(msg.players ?? 0, humanSeats(room).length));
+                room.turnSeconds = msg.turnSeconds ?? room.turnSeconds;
+                room.onDisconnect = msg.onDisconnect ?? room.onDisconnect;
+                room.spectatorDelay = msg.spectatorDelay ?? room.spectatorDelay;
+                seed = msg.seed;
+            } else {
+                const error = voteRematch(room, playerId, msg.agree);
+                if (error) {
+                    sendError(id, error);
+                    return;
+                }
+                if (!rematchReady(room)) {
+                    publishState(room);
+                    return;
+                }
+                // Повторная партия: первым ходит дурак прошлой (по правилам rematchLead), в серии — последний дурак серии
+                previousDurakId = room.series ? nextDealOptions(room.series).previousDurakId : room.state?.durakId;
+            }
+            try {
+                startMatch(room, { seed, previousDurakId });
+            } catch (e) {
+                sendError(id, e instanceof Error ? e.message : String(e));
+                return;
+            }
+            if (msg.type === 'start') beginSeries(room, msg.series);
+            else continueSeries(room);
+            const state = room.state!;
+            console.log(`[server] Room ${room.code}: game started. Players: ${state.players.length}, trump: ${state.trumpSuit}, variant: ${room.rules.variant}, seed: ${state.seed}`);
+            processBotTurns(room);
+            armTurn(room);
+            publishState(room);
             return;
         }
 
-        if (msg?.type === 'action') {
-            if (!room.state) return;
-            if (room.currentPlayerId !== playerId) {
-                sendTo(id, { type: 'error', message: 'Сейчас ход другого игрока' });
+        case 'leave':
+            if (isStillPlaying(room, playerId)) {
+                // С одними ботами партию просто бросаем, при живых соперниках уход — это сдача.
+                // Кто уже вышел из игры без карт, уходит просто так: партия идёт дальше без него
+                const others = room.state!.players.filter((p) => p.type === 'human' && p.id !== playerId);
+                if (others.length === 0) {
+                    room.state = null;
+                    room.turn = undefined;
+                } else {
+                    concede(room, playerId);
+                }
+            }
+            standUp(room, playerId);
+            leaveRoom(client);
+            if (room.state) publishState(room);
+            else publishMenu(room);
+            sendLobby(id);
+            return;
+
+        case 'draw': {
+            const error = answerDraw(room, playerId, msg.agree);
+            if (error) sendError(id, error);
+            else publishState(room);
+            return;
+        }
+
+        case 'concede':
+            if (!isInGame(room) || !inMatch(room, playerId)) {
+                sendError(id, 'Вы не участвуете в партии');
+                return;
+            }
+            if (!concede(room, playerId)) {
+                sendError(id, 'Вы уже вышли из игры');
+                return;
+            }
+            publishState(room);
+            return;
+
+        case 'action': {
+            if (!room.state || !inMatch(room, playerId)) {
+                sendError(id, 'Вы не участвуете в партии');
                 return;
             }
-            const action = msg.action as Action;
-            const res = applyAction(room.state, playerId, action);
+            // Очерёдность и допустимость хода проверяет движок
+            const res = applyAction(room.state, playerId, msg.action);
             room.state = res.state;
             if (!res.ok) {
-                sendTo(id, { type: 'error', message: res.error });
+                sendError(id, res.error);
             } else {
-                processBotTurns();
-                publishState();
+                clearMissedTurns(room, playerId);
+                clearDrawOffer(room);
+                processBotTurns(room);
+                armTurn(room);
+                publishState(room);
             }
             return;
         }
+    }
+}
+
+wss.on('connection', (ws) => {
+    const id = Math.random().toString(36).slice(2);
+    clients.set(id, { id, ws });
+    console.log(`[server] Client connected: ${id}`);
+
+    // Ждём hello с initData (или с playerId в dev-режиме)
+    ws.on('message', (raw) => {
+        let data: unknown;
+        try { data = JSON.parse(String(raw)); } catch { return; }
+        const client = clients.get(id);
+        if (!client) return;
+
+        const parsed = parseClientMessage(data);
+        if (!parsed.ok) {
+            sendError(id, parsed.error, 'invalid');
+            return;
+        }
+        const msg = parsed.msg;
+
+        if (msg.type === 'hello') {
+            if (msg.v !== PROTOCOL_VERSION) {
+                sendError(id, 'Приложение устарело — обновите страницу, чтобы продолжить игру', 'version');
+                return;
+            }
+            const auth = authenticate(msg, AUTH);
+            if (!auth.ok) {
+                sendError(id, auth.error);
+                return;
+            }
+            // Подключение привязано к одному игроку: сменить его можно только новым подключением
+            if (client.playerId && client.playerId !== auth.identity.playerId) {
+                sendError(id, 'Подключение уже занято другим игроком');
+                return;
+            }
+            client.playerId = auth.identity.playerId;
+            client.source = auth.identity.source;
+            client.name = auth.identity.source === 'dev' && msg.name !== undefined ? displayName(msg.name) : auth.identity.name;
+        }
+
+        // Всё остальное принимаем только от подключений, прошедших hello
+        const playerId = client.playerId;
+        if (!playerId) {
+            sendError(id, 'Нужна авторизация');
+            return;
+        }
+        handleMessage(client, playerId, msg);
     });
 
     ws.on('close', (code, buf) => {
-        room.clients.delete(id);
+        const client = clients.get(id);
+        if (client) leaveRoom(client);
+        if (client?.playerId && queuedEntries().some((e) => e.clientId === id)) {
+            dequeue(client.playerId);
+            publishQueue();
+        }
+        clients.delete(id);
         const reason = buf && buf.toString ? buf.toString() : '';
         console.log(`[server] Client disconnected: ${id} (code=${code}${reason ? `, reason=${reason}` : ''})`);
         // Не сбрасываем партию: playerId может вернуться и продолжить
     });
-});
\ No newline at end of file
+});
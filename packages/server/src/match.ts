@@ -0,0 +1,245 @@
+import {
+    MAX_PLAYERS,
+    MIN_PLAYERS,
+    applyAction,
+    awaitedPlayers,
+    botDecide,
+    fallbackAction,
+    isActive,
+    recordSeriesGame,
+    sameSeriesPlayers,
+    startGame,
+    startSeries,
+    type BotOptions,
+    type Seat,
+    type SeriesConfig,
+    type StartOptions,
+} from '@durak/engine';
+import { humanSeats, isInGame, seatOf, type Room } from './rooms';
+
+// Слушатели окончания партии (например, бот публикует итог в чат)
+const finishListeners: ((room: Room) => void)[] = [];
+
+// Бюджет перебора для бота уровня expert
+const BOT_OPTIONS: BotOptions = {
+    search: {
+        iterations: Number(process.env.SEARCH_ITERATIONS ?? 300),
+        timeMs: Number(process.env.SEARCH_TIME_MS ?? 150),
+    },
+};
+
+// Столько пропусков хода подряд засчитываются как сдача
+const TURN_FORFEIT_AFTER = Number(process.env.TURN_FORFEIT_AFTER ?? 3);
+
+export function clampPlayerCount(n: unknown): number {
+    const count = typeof n === 'number' && Number.isInteger(n) ? n : MIN_PLAYERS;
+    return Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS, count));
+}
+
+// Свободные места занимают боты; прежние боты сохраняют id, чтобы «дурак прошлой партии» не потерялся
+function fillWithBots(room: Room): Seat[] {
+    const humans = humanSeats(room);
+    const oldBots = room.seats.filter((s) => s.type === 'bot');
+    const bots: Seat[] = [];
+    for (let i = 0; humans.length + bots.length < room.playerCount; i++) {
+        bots.push({
+            playerId: oldBots[i]?.playerId ?? 'bot-' + Math.random().toString(36).slice(2),
+            name: `Бот ${i + 1}`,
+            type: 'bot',
+            botLevel: room.botLevel,
+        });
+    }
+    return [...humans, ...bots];
+}
+
+// Раздача новой партии в комнате; бросает Error, если партию начать нельзя
+export function startMatch(room: Room, options: Omit<StartOptions, 'rules'> = {}) {
+    const seats = fillWithBots(room);
+    room.state = startGame(
+        seats.map((s) => ({ id: s.playerId, name: s.name, type: s.type, botLevel: s.botLevel })),
+        { ...options, rules: room.rules },
+    );
+    room.seats = seats;
+    room.resultReported = false;
+    room.conceded = undefined;
+    room.missedTurns = {};
+    room.drawAgreed = undefined;
+    room.rematchAgreed = undefined;
+}
+
+// Новая серия за текущим столом (или отдельные партии, если config нет)
+export function beginSeries(room: Room, config: SeriesConfig | null | undefined) {
+    room.series = config && room.state ? startSeries(room.state.players.map((p) => p.id), config) : undefined;
+}
+
+// Следующая раздача продолжает серию; решённая серия или сменившийся состав начинают её заново
+export function continueSeries(room: Room) {
+    const series = room.series;
+    if (!series || !room.state) return;
+    const ids = room.state.players.map((p) => p.id);
+    if (series.finished || !sameSeriesPlayers(series, ids)) beginSeries(room, { scoring: series.scoring, target: series.target });
+}
+
+// Боты ходят, пока хоть одному из них есть что сделать
+export function processBotTurns(room: Room) {
+    if (!room.state) return;
+    let guard = 200;
+    while (guard-- > 0 && room.state.phase !== 'finished') {
+        let acted = false;
+        const n: number = room.state.players.length;
+        // Опрашиваем по кругу начиная с главного атакующего — у него приоритет
+        for (let step = 0; step < n; step++) {
+            const idx = (room.state.attacker + step) % n;
+            if (room.state.players[idx].type !== 'bot') continue;
+            const act = botDecide(room.state, idx, BOT_OPTIONS);
+            if (!act) continue;
+            const res = applyAction(room.state, room.state.players[idx].id, act);
+            room.state = res.state;
+            if (!res.ok) {
+                console.log('[bot] action error:', res.error);
+                return;
+            }
+            acted = true;
+            break;
+        }
+        if (!acted) break;
+    }
+}
+
+// Ход всё ещё за ботом (processBotTurns упёрся в ограничитель): доигрываем на следующем тике часов
+export function resumeBotTurns(room: Room): boolean {
+    const state = room.state;
+    if (!state || !isInGame(room)) return false;
+    if (!awaitedPlayers(state).some((idx) => state.players[idx].type === 'bot')) return false;
+    processBotTurns(room);
+    armTurn(room);
+    return true;
+}
+
+// Игрок ещё держит карты в идущей партии: только такой может стать дураком
+export function isStillPlaying(room: Room, playerId: string): boolean {
+    const state = room.state;
+    if (!state || !isInGame(room) || state.finishOrder.includes(playerId)) return false;
+    const idx = state.players.findIndex((p) => p.id === playerId);
+    return idx >= 0 && isActive(state, idx);
+}
+
+// Сдавшийся остаётся дураком, партия на этом заканчивается. Вышедший из игры сдаться не может — false
+export function concede(room: Room, playerId: string, reason = 'сдаётся'): boolean {
+    const state = room.state;
+    if (!state || !isStillPlaying(room, playerId)) return false;
+    const player = state.players.find((p) => p.id === playerId);
+    state.phase = 'finished';
+    state.durakId = playerId;
+    state.message = `${player?.name ?? 'Игрок'} ${reason} и остаётся дураком`;
+    room.conceded = playerId;
+    room.turn = undefined;
+    room.drawAgreed = undefined;
+    return true;
+}
+
+// Заводит часы заново: после каждого хода ждущие получают полное время
+export function armTurn(room: Room, now: number = Date.now()) {
+    room.turn = undefined;
+    const state = room.state;
+    if (!state || !isInGame(room) || !(room.turnSeconds > 0)) return;
+    // Боты ходят сразу, ждать имеет смысл только людей
+    const playerIds = awaitedPlayers(state)
+        .map((idx) => state.players[idx])
+        .filter((p) => p.type === 'human')
+        .map((p) => p.id);
+    if (playerIds.length > 0) room.turn = { playerIds, deadline: now + room.turnSeconds * 1000 };
+}
+
+// Игрок сходил сам — счёт пропусков начинается заново
+export function clearMissedTurns(room: Room, playerId: string) {
+    if (room.missedTurns) delete room.missedTurns[playerId];
+}
+
+// Время вышло: за каждого, кого ждали, сервер ходит по умолчанию, а пропустивший слишком много раз подряд сдаётся
+export function expireTurn(room: Room) {
+    const turn = room.turn;
+    if (!turn || !room.state) return;
+    const missedTurns = (room.missedTurns ??= {});
+    for (const playerId of turn.playerIds) {
+        const state = room.state;
+        if (state.phase === 'finished') break;
+        const idx = state.players.findIndex((p) => p.id === playerId);
+        // Ход другого игрока мог уже снять с него ожидание (например, отбой после паса)
+        if (!awaitedPlayers(state).includes(idx)) continue;
+        const missed = (missedTurns[playerId] ?? 0) + 1;
+        missedTurns[playerId] = missed;
+        if (missed >= TURN_FORFEIT_AFTER) {
+            concede(room, playerId, `${missed}-й раз подряд не успевает сходить`);
+            break;
+        }
+        const act = fallbackAction(state, idx);
+        if (!act) continue;
+        const res = applyAction(state, playerId, act);
+        room.state = res.state;
+        if (!res.ok) console.log('[turn] fallback action error:', res.error);
+    }
+    processBotTurns(room);
+    armTurn(room);
+}
+
+// Игрок отключился: место держим до graceMs, соперники видят, что его нет
+export function markAway(room: Room, playerId: string, graceMs: number, now: number = Date.now()) {
+    (room.away ??= {})[playerId] = now + graceMs;
+}
+
+// Игрок вернулся: снимаем отметку и, если за него уже играл бот, возвращаем управление
+export function markBack(room: Room, playerId: string) {
+    if (!room.away || room.away[playerId] === undefined) return;
+    delete room.away[playerId];
+    const player = room.state?.players.find((p) => p.id === playerId);
+    if (!player || player.type !== 'bot' || seatOf(room, playerId)?.type !== 'human') return;
+    player.type = 'human';
+    delete player.botLevel;
+    if (!room.turn) armTurn(room);
+}
+
+// Отключившиеся участники текущей партии (в том числе те, за кого играет бот)
+export function awayPlayers(room: Room): string[] {
+    const away = room.away ?? {};
+    return (room.state?.players ?? []).filter((p) => away[p.id] !== undefined).map((p) => p.id);
+}
+
+// Истёк срок ожидания: за отключившегося доигрывает бот или он проигрывает — как настроено в комнате.
+// Отметка остаётся до возвращения игрока, так что и следующую партию за него сразу сыграет бот
+export function expireAway(room: Room, now: number = Date.now()): boolean {
+    const state = room.state;
+    if (!room.away || !state || !isInGame(room)) return false;
+    let replaced = false;
+    for (const [playerId, deadline] of Object.entries(room.away)) {
+        const player = state.players.find((p) => p.id === playerId);
+        // Вышедшему из игры без карт ни бот, ни поражение не нужны: партия доигрывается без него
+        if (!player || player.type !== 'human' || now < deadline || !isStillPlaying(room, playerId)) continue;
+        if (room.onDisconnect === 'forfeit') {
+            concede(room, playerId, 'не вернулся в игру');
+            return true;
+        }
+        player.type = 'bot';
+        player.botLevel = room.botLevel;
+        replaced = true;
+    }
+    if (replaced) {
+        processBotTurns(room);
+        armTurn(room);
+    }
+    return replaced;
+}
+
+export function onMatchFinished(listener: (room: Room) => void) {
+    finishListeners.push(listener);
+}
+
+// Сообщает о законченной партии ровно один раз
+export function notifyIfFinished(room: Room) {
+    const state = room.state;
+    if (!state || state.phase !== 'finished' || room.resultReported) return;
+    room.resultReported = true;
+    // Счёт серии обновляем до слушателей и до рассылки состояния: все увидят уже новый счёт
+    if (room.series) room.series = recordSeriesGame(room.series, state);
+    for (const listener of finishListeners) listener(room);
+}
@@ -0,0 +1,68 @@
+import type { QueueStatus, Variant } from '@durak/engine';
+
+// Игрок в очереди быстрой игры
+export type QueueEntry = {
+    playerId: string;
+    clientId: string;
+    name: string;
+    variant: Variant;
+    players: number; // желаемое число игроков за столом
+    joinedAt: number;
+};
+
+// Собранный стол: люди из очереди, остальные места займут боты
+export type QueueMatch = {
+    variant: Variant;
+    players: number;
+    entries: QueueEntry[];
+};
+
+const queue: QueueEntry[] = [];
+
+export function enqueue(entry: QueueEntry) {
+    dequeue(entry.playerId);
+    queue.push(entry);
+}
+
+export function dequeue(playerId: string): QueueEntry | undefined {
+    const idx = queue.findIndex((e) => e.playerId === playerId);
+    return idx >= 0 ? queue.splice(idx, 1)[0] : undefined;
+}
+
+export function queuedEntries(): QueueEntry[] {
+    return queue.slice();
+}
+
+function sameTable(a: QueueEntry, b: QueueEntry): boolean {
+    return a.variant === b.variant && a.players === b.players;
+}
+
+// Забирает из очереди полные столы, а также столы, где старший ждёт дольше botFallbackMs
+export function takeMatches(botFallbackMs: number, now: number = Date.now()): QueueMatch[] {
+    const matches: QueueMatch[] = [];
+    // Очередь упорядочена по времени входа — первым обслуживаем того, кто ждёт дольше
+    for (let i = 0; i < queue.length; ) {
+        const head = queue[i];
+        const group = queue.filter((e) => sameTable(e, head)).slice(0, head.players);
+        if (group.length < head.players && now - head.joinedAt < botFallbackMs) {
+            i++;
+            continue;
+        }
+        for (const e of group) dequeue(e.playerId);
+        matches.push({ variant: head.variant, players: head.players, entries: group });
+    }
+    return matches;
+}
+
+export function queueStatus(playerId: string, botFallbackMs: number, now: number = Date.now()): QueueStatus | null {
+    const entry = queue.find((e) => e.playerId === playerId);
+    if (!entry) return null;
+    const group = queue.filter((e) => sameTable(e, entry));
+    return {
+        variant: entry.variant,
+        players: entry.players,
+        waiting: group.length,
+        waitedMs: now - entry.joinedAt,
+        botFallbackInMs: Math.max(0, group[0].joinedAt + botFallbackMs - now),
+    };
+}
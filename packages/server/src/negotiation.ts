@@ -0,0 +1,63 @@
+import { isActive } from '@durak/engine';
+import { humanSeats, isInGame, seatOf, type Room } from './rooms';
+
+// Договорённости за столом: ничья по согласию всех, кто ещё в игре, и новая партия по согласию всех сидящих.
+// Функции возвращают текст ошибки или null, как sitDown/standUp
+
+// Согласие на ничью: первое — это предложение, согласие всех оставшихся в игре заканчивает партию вничью.
+// Отказ любого из них снимает предложение
+export function answerDraw(room: Room, playerId: string, agree: boolean): string | null {
+    const state = room.state;
+    if (!state || !isInGame(room)) return 'Партия не идёт';
+    const parties = state.players.filter((_, idx) => isActive(state, idx));
+    if (!parties.some((p) => p.id === playerId)) return 'Вы уже вышли из игры';
+    if (!agree) {
+        room.drawAgreed = undefined;
+        return null;
+    }
+    // Бот (в том числе играющий за отключившегося) согласиться не может
+    if (parties.some((p) => p.type !== 'human')) return 'С ботом ничьей не бывает';
+    const agreed = room.drawAgreed ?? [];
+    if (!agreed.includes(playerId)) agreed.push(playerId);
+    room.drawAgreed = agreed;
+    if (parties.every((p) => agreed.includes(p.id))) {
+        state.phase = 'finished';
+        state.durakId = undefined;
+        state.message = 'Ничья по соглашению';
+        room.drawAgreed = undefined;
+        room.turn = undefined;
+    }
+    return null;
+}
+
+// Сделанный ход отменяет предложение ничьей: игра пошла дальше
+export function clearDrawOffer(room: Room) {
+    room.drawAgreed = undefined;
+}
+
+// Голос за новую партию после окончания прежней; отказ снимает только свой голос
+export function voteRematch(room: Room, playerId: string, agree: boolean): string | null {
+    if (!room.state) return 'Ещё не сыграно ни одной партии';
+    if (isInGame(room)) return 'Партия уже идёт';
+    if (!seatOf(room, playerId)) return 'Сначала займите место за столом';
+    const agreed = (room.rematchAgreed ?? []).filter((id) => id !== playerId);
+    if (agree) agreed.push(playerId);
+    room.rematchAgreed = agreed;
+    return null;
+}
+
+// Раздавать новую партию можно, когда согласны все люди, сидящие за столом
+export function rematchReady(room: Room): boolean {
+    const humans = humanSeats(room);
+    return humans.length > 0 && humans.every((s) => room.rematchAgreed?.includes(s.playerId));
+}
+
+// После партии те же люди за тем же столом продолжают только по общему согласию: хозяин не может
+// раздать заново (и сбросить серию) сам. Сменился состав или хозяин играет один с ботами — можно начать заново
+export function needsRematchVote(room: Room): boolean {
+    const state = room.state;
+    if (!state) return false;
+    const humans = humanSeats(room).map((s) => s.playerId);
+    const played = state.players.filter((p) => seatOf(room, p.id)?.type === 'human').map((p) => p.id);
+    return humans.length > 1 && humans.length === played.length && humans.every((id) => played.includes(id));
+}
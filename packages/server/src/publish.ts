@@ -0,0 +1,108 @@
+import { recordOf, spectatorView, viewFor, type ServerMessage, type Spectator, type TurnTimer } from '@durak/engine';
+import { clients, sendTo, type Client } from './clients';
+import { awayPlayers, notifyIfFinished } from './match';
+import { listOpenRooms, persistRoom, seatOf, summarizeRoom, type Room } from './rooms';
+
+type SpectatorFrame = Omit<Extract<ServerMessage, { type: 'state' }>, 'you'>;
+
+// Последний кадр, показанный зрителям каждой комнаты
+const spectatorFrames = new Map<string, SpectatorFrame>();
+
+// Зрители — подключения в комнате, чей игрок не сидит за столом
+function spectatorClients(room: Room): Client[] {
+    return [...room.clients]
+        .map((cid) => clients.get(cid))
+        .filter((c): c is Client => !!c?.playerId && !seatOf(room, c.playerId));
+}
+
+export function spectatorsOf(room: Room): Spectator[] {
+    const seen = new Map<string, Spectator>();
+    for (const c of spectatorClients(room)) seen.set(c.playerId!, { playerId: c.playerId!, name: c.name ?? 'Игрок' });
+    return [...seen.values()];
+}
+
+// Меню комнаты: кто за столом, кто хозяин и настройки следующей партии
+export function menuMessage(room: Room, playerId?: string): ServerMessage {
+    return {
+        type: 'menu',
+        you: playerId,
+        room: summarizeRoom(room),
+        seats: room.seats.map((s) => (room.away?.[s.playerId] !== undefined ? { ...s, offline: true } : s)),
+        hostId: room.hostId,
+        playerCount: room.playerCount,
+        turnSeconds: room.turnSeconds,
+        onDisconnect: room.onDisconnect,
+        spectatorDelay: room.spectatorDelay,
+        spectators: spectatorsOf(room),
+        series: room.series,
+    };
+}
+
+function turnTimer(room: Room, now: number = Date.now()): TurnTimer | undefined {
+    if (!room.turn) return undefined;
+    return { playerIds: room.turn.playerIds, msLeft: Math.max(0, room.turn.deadline - now) };
+}
+
+export function sendLobby(clientId: string) {
+    sendTo(clientId, { type: 'lobby', rooms: listOpenRooms() });
+}
+
+// Всё, что показываем игрокам, сначала сохраняем: после перезапуска они вернутся к тому же
+export function publishMenu(room: Room) {
+    persistRoom(room);
+    for (const cid of room.clients) {
+        sendTo(cid, menuMessage(room, clients.get(cid)?.playerId));
+    }
+}
+
+export function publishState(room: Room) {
+    if (!room.state) return;
+    notifyIfFinished(room);
+    persistRoom(room);
+    // По окончании партии отдаём запись, чтобы её можно было разобрать или воспроизвести
+    const record = room.state.phase === 'finished' ? recordOf(room.state) : undefined;
+    const turn = turnTimer(room);
+    const base = {
+        type: 'state' as const,
+        room: summarizeRoom(room),
+        hostId: room.hostId,
+        offline: awayPlayers(room),
+        spectators: spectatorsOf(room),
+        series: room.series,
+        drawAgreed: room.drawAgreed ?? [],
+        rematchAgreed: room.rematchAgreed ?? [],
+        record,
+    };
+    // Каждому — только его вид: без чужих рук и порядка колоды
+    for (const cid of room.clients) {
+        const playerId = clients.get(cid)?.playerId;
+        const view = playerId ? viewFor(room.state, playerId) : null;
+        if (playerId && view) {
+            sendTo(cid, { ...base, you: playerId, view, turn });
+        } else if (!playerId || seatOf(room, playerId)) {
+            // Сел за стол после партии — ждёт следующую в меню
+            sendTo(cid, menuMessage(room, playerId));
+        }
+    }
+    // Зрителям — стол без скрытых карт; с задержкой часы хода им ни к чему
+    const frame: SpectatorFrame = { ...base, view: spectatorView(room.state), turn: room.spectatorDelay > 0 ? undefined : turn };
+    if (room.spectatorDelay > 0) setTimeout(() => showSpectators(room, frame), room.spectatorDelay * 1000).unref();
+    else showSpectators(room, frame);
+}
+
+function showSpectators(room: Room, frame: SpectatorFrame) {
+    spectatorFrames.set(room.id, frame);
+    for (const client of spectatorClients(room)) sendTo(client.id, { ...frame, you: client.playerId! });
+}
+
+// Зритель, зашедший посреди партии, сразу видит последний показанный зрителям кадр
+export function sendSpectatorFrame(clientId: string, room: Room) {
+    const frame = spectatorFrames.get(room.id);
+    const playerId = clients.get(clientId)?.playerId;
+    if (frame && playerId) sendTo(clientId, { ...frame, you: playerId });
+    else sendTo(clientId, menuMessage(room, playerId));
+}
+
+export function forgetSpectatorFrames(roomId: string) {
+    spectatorFrames.delete(roomId);
+}
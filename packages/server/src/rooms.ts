@@ -0,0 +1,179 @@
+import {
+    MAX_PLAYERS,
+    resolveRules,
+    type BotLevel,
+    type DisconnectPolicy,
+    type GameRules,
+    type GameState,
+    type RoomSummary,
+    type Seat,
+    type SeriesState,
+} from '@durak/engine';
+import { createMemoryStore, type RoomStore, type StoredRoom } from './storage';
+
+// Куда бот отправит итог партии: чат команды /play или inline-приглашение
+export type ChatLink = { chatId: number } | { inlineMessageId: string };
+
+// Часы хода: кого из людей ждём и когда за них сходит сервер
+export type TurnClock = { playerIds: string[]; deadline: number };
+
+export type Room = {
+    id: string;
+    code: string; // короткий код для приглашения
+    clients: Set<string>; // id подключений, находящихся в комнате
+    seats: Seat[]; // по кругу, в порядке посадки
+    hostId: string | null; // кто настраивает и запускает партию
+    state: GameState | null;
+    rules: GameRules; // правила последней партии, для «Играть снова»
+    botLevel: BotLevel;
+    playerCount: number; // сколько мест в партии; недостающих добирают боты
+    turnSeconds: number; // время на ход; 0 — без ограничения
+    turn?: TurnClock;
+    missedTurns?: Record<string, number>; // пропуски хода подряд, по playerId
+    onDisconnect: DisconnectPolicy;
+    spectatorDelay: number; // на сколько секунд зрители отстают от партии
+    away?: Record<string, number>; // отключившиеся: playerId → до какого момента держим за ним место
+    lastActivity: number; // для сборки простаивающих комнат
+    chat?: ChatLink;
+    resultReported?: boolean; // итог текущей партии уже разослан
+    conceded?: string; // кто сдался в текущей партии (в статистике это не «дурак с картами»)
+    series?: SeriesState; // счёт серии партий, если хозяин её начал
+    drawAgreed?: string[]; // согласные на ничью в текущей партии, первым — предложивший
+    rematchAgreed?: string[]; // согласные на новую партию после окончания текущей
+};
+
+// Без похожих символов (0/O, 1/I), чтобы код было удобно диктовать
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+
+// Время на ход в новых комнатах
+const DEFAULT_TURN_SECONDS = Number(process.env.TURN_TIME_S ?? 30);
+// Задержка трансляции для зрителей в новых комнатах: не даёт подсказывать игрокам по ходу партии
+const DEFAULT_SPECTATOR_DELAY_S = Number(process.env.SPECTATOR_DELAY_S ?? 0);
+
+const rooms = new Map<string, Room>();
+let store: RoomStore = createMemoryStore<StoredRoom>((r) => r.id);
+
+// Подключает хранилище и поднимает из него комнаты, пережившие перезапуск
+export function useStore(next: RoomStore): number {
+    store = next;
+    for (const saved of store.load()) {
+        rooms.set(saved.id, { ...saved, clients: new Set() });
+    }
+    return rooms.size;
+}
+
+export function persistRoom(room: Room) {
+    const { clients: _clients, ...stored } = room;
+    store.save(stored);
+}
+
+function makeCode(): string {
+    for (;;) {
+        let code = '';
+        for (let i = 0; i < CODE_LENGTH; i++) {
+            code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+        }
+        if (!findRoomByCode(code)) return code;
+    }
+}
+
+export function createRoom(hostId: string): Room {
+    const room: Room = {
+        id: 'room-' + Math.random().toString(36).slice(2),
+        code: makeCode(),
+        clients: new Set(),
+        seats: [],
+        hostId,
+        state: null,
+        rules: resolveRules(),
+        botLevel: 'easy',
+        playerCount: 2,
+        turnSeconds: DEFAULT_TURN_SECONDS,
+        onDisconnect: 'bot',
+        spectatorDelay: DEFAULT_SPECTATOR_DELAY_S,
+        lastActivity: Date.now(),
+    };
+    rooms.set(room.id, room);
+    return room;
+}
+
+export function getRoom(id: string): Room | undefined {
+    return rooms.get(id);
+}
+
+export function findRoomByCode(code: string): Room | undefined {
+    const normalized = code.trim().toUpperCase();
+    for (const room of rooms.values()) {
+        if (room.code === normalized) return room;
+    }
+    return undefined;
+}
+
+export function allRooms(): Room[] {
+    return [...rooms.values()];
+}
+
+export function isInGame(room: Room): boolean {
+    return !!room.state && room.state.phase !== 'finished';
+}
+
+// Открытые комнаты — те, где партия ещё не идёт
+export function listOpenRooms(): RoomSummary[] {
+    return [...rooms.values()].filter((r) => !isInGame(r)).map(summarizeRoom);
+}
+
+export function summarizeRoom(room: Room): RoomSummary {
+    return {
+        id: room.id,
+        code: room.code,
+        clients: room.clients.size,
+        humans: humanSeats(room).length,
+        inGame: isInGame(room),
+    };
+}
+
+export function humanSeats(room: Room): Seat[] {
+    return room.seats.filter((s) => s.type === 'human');
+}
+
+export function seatOf(room: Room, playerId: string): Seat | undefined {
+    return room.seats.find((s) => s.playerId === playerId);
+}
+
+// Занять место; null — успешно, иначе текст ошибки
+export function sitDown(room: Room, playerId: string, name: string): string | null {
+    if (isInGame(room)) return 'Партия уже идёт';
+    if (seatOf(room, playerId)) return null;
+    if (humanSeats(room).length >= MAX_PLAYERS) return 'Свободных мест нет';
+    // Боты прошлой партии уступают место людям
+    room.seats = room.seats.filter((s) => s.type === 'human');
+    room.seats.push({ playerId, name, type: 'human' });
+    if (!room.hostId) room.hostId = playerId;
+    return null;
+}
+
+export function standUp(room: Room, playerId: string): string | null {
+    if (isInGame(room) && room.state!.players.some((p) => p.id === playerId)) return 'Нельзя встать посреди партии';
+    room.seats = room.seats.filter((s) => s.playerId !== playerId);
+    if (room.away) delete room.away[playerId];
+    if (room.hostId === playerId) room.hostId = humanSeats(room)[0]?.playerId ?? null;
+    return null;
+}
+
+export function touchRoom(room: Room) {
+    room.lastActivity = Date.now();
+}
+
+// Удаляет пустые комнаты, в которых ничего не происходило дольше maxIdleMs
+export function collectIdleRooms(maxIdleMs: number, now: number = Date.now()): Room[] {
+    const removed: Room[] = [];
+    for (const room of rooms.values()) {
+        if (room.clients.size === 0 && now - room.lastActivity > maxIdleMs) {
+            rooms.delete(room.id);
+            store.remove(room.id);
+            removed.push(room);
+        }
+    }
+    return removed;
+}
@@ -0,0 +1,95 @@
+import {
+    INITIAL_RATING,
+    ratingChanges,
+    type LeaderboardEntry,
+    type MatchResult,
+    type PlayerProfile,
+} from '@durak/engine';
+import { seatOf, type Room } from './rooms';
+import { createMemoryStore, type RecordStore } from './storage';
+
+// Сколько последних партий хранится в профиле
+const RECENT_LIMIT = 20;
+
+const profiles = new Map<string, PlayerProfile>();
+let store: RecordStore<PlayerProfile> = createMemoryStore<PlayerProfile>((p) => p.playerId);
+
+// Подключает хранилище и поднимает из него профили игроков
+export function useStatsStore(next: RecordStore<PlayerProfile>): number {
+    store = next;
+    for (const saved of store.load()) profiles.set(saved.playerId, saved);
+    return profiles.size;
+}
+
+function profileFor(playerId: string, name: string): PlayerProfile {
+    let profile = profiles.get(playerId);
+    if (!profile) {
+        profile = {
+            playerId,
+            name,
+            rating: INITIAL_RATING,
+            ratedGames: 0,
+            games: 0,
+            wins: 0,
+            losses: 0,
+            draws: 0,
+            durakCount: 0,
+            totalMoves: 0,
+            variants: {},
+            recent: [],
+        };
+        profiles.set(playerId, profile);
+    }
+    profile.name = name;
+    return profile;
+}
+
+// Записывает законченную партию в профили людей; рейтинг меняется, только если людей за столом хотя бы двое.
+// Люди — по местам комнаты: за отключившегося мог доигрывать бот, но партия всё равно его
+export function recordMatch(room: Room) {
+    const state = room.state;
+    if (!state || state.phase !== 'finished') return;
+    const humans = state.players.filter((p) => seatOf(room, p.id)?.type === 'human');
+    if (humans.length === 0) return;
+
+    const rated = humans.length >= 2;
+    const changes = rated
+        ? ratingChanges(Object.fromEntries(humans.map((p) => [p.id, profileFor(p.id, p.name).rating])), state.durakId)
+        : {};
+    const names = state.players.map((p) => p.name);
+    const variant = state.rules.variant;
+
+    for (const player of humans) {
+        const profile = profileFor(player.id, player.name);
+        const result: MatchResult = !state.durakId ? 'draw' : state.durakId === player.id ? 'loss' : 'win';
+        profile.games++;
+        if (result === 'win') profile.wins++;
+        else if (result === 'loss') profile.losses++;
+        else profile.draws++;
+        if (result === 'loss' && room.conceded !== player.id) profile.durakCount++;
+        profile.totalMoves += state.log.length;
+        profile.variants[variant] = (profile.variants[variant] ?? 0) + 1;
+        if (rated) {
+            profile.rating += changes[player.id];
+            profile.ratedGames++;
+        }
+        profile.recent = [
+            { at: Date.now(), variant, players: names, result, moves: state.log.length, ratingDelta: rated ? changes[player.id] : undefined },
+            ...profile.recent,
+        ].slice(0, RECENT_LIMIT);
+        store.save(profile);
+    }
+}
+
+export function getProfile(playerId: string): PlayerProfile | null {
+    return profiles.get(playerId) ?? null;
+}
+
+// Таблица лидеров: только игроки с рейтинговыми партиями, по убыванию рейтинга
+export function leaderboard(limit: number): LeaderboardEntry[] {
+    return [...profiles.values()]
+        .filter((p) => p.ratedGames > 0)
+        .sort((a, b) => b.rating - a.rating || b.ratedGames - a.ratedGames)
+        .slice(0, limit)
+        .map(({ playerId, name, rating, ratedGames, wins, losses, draws }) => ({ playerId, name, rating, ratedGames, wins, losses, draws }));
+}
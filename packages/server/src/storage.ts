@@ -0,0 +1,54 @@
+import { mkdirSync, readFileSync, readdirSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Room } from './rooms';
+
+// Сохраняемая часть комнаты: всё, кроме живых подключений
+export type StoredRoom = Omit<Room, 'clients'>;
+
+// Хранилище записей с ключом: комнаты по id, профили игроков по playerId
+export type RecordStore<T> = {
+    load(): T[];
+    save(item: T): void;
+    remove(key: string): void;
+};
+
+export type RoomStore = RecordStore<StoredRoom>;
+
+// Без сохранения между перезапусками — для тестов и одноразовых запусков
+export function createMemoryStore<T>(keyOf: (item: T) => string): RecordStore<T> {
+    const items = new Map<string, string>();
+    return {
+        load: () => [...items.values()].map((json) => JSON.parse(json) as T),
+        save: (item) => void items.set(keyOf(item), JSON.stringify(item)),
+        remove: (key) => void items.delete(key),
+    };
+}
+
+// Запись — отдельный JSON-файл; запись через временный файл, чтобы обрыв не оставил половину
+export function createFileStore<T>(dir: string, keyOf: (item: T) => string): RecordStore<T> {
+    mkdirSync(dir, { recursive: true });
+    // Ключ может прийти извне (playerId), поэтому в имени файла — только безопасные символы
+    const fileOf = (key: string) => join(dir, `${encodeURIComponent(key)}.json`);
+    return {
+        load() {
+            const items: T[] = [];
+            for (const file of readdirSync(dir)) {
+                if (!file.endsWith('.json')) continue;
+                try {
+                    items.push(JSON.parse(readFileSync(join(dir, file), 'utf8')) as T);
+                } catch (e) {
+                    console.log(`[storage] Skipping unreadable ${file}:`, e);
+                }
+            }
+            return items;
+        },
+        save(item) {
+            const file = fileOf(keyOf(item));
+            writeFileSync(file + '.tmp', JSON.stringify(item));
+            renameSync(file + '.tmp', file);
+        },
+        remove(key) {
+            rmSync(fileOf(key), { force: true });
+        },
+    };
+}
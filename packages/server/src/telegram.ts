@@ -0,0 +1,203 @@
+import { telegramName, telegramPlayerId, type TelegramUser } from './auth';
+import { onMatchFinished } from './match';
+import { createRoom, findRoomByCode, getRoom, persistRoom, sitDown, type Room } from './rooms';
+
+export type TelegramConfig = {
+    token: string;
+    apiBase: string; // https://api.telegram.org или локальная заглушка
+    miniAppUrl: string; // ссылка на Mini App вида https://t.me/<bot>/<app>
+    pollTimeoutS: number;
+};
+
+// Только те поля Bot API, которые нам нужны
+type Chat = { id: number; type: string };
+type Message = { message_id: number; chat: Chat; from?: TelegramUser; text?: string };
+type InlineQuery = { id: string; from: TelegramUser; query: string };
+type ChosenInlineResult = { result_id: string; from: TelegramUser; inline_message_id?: string };
+type Update = {
+    update_id: number;
+    message?: Message;
+    inline_query?: InlineQuery;
+    chosen_inline_result?: ChosenInlineResult;
+};
+
+export type BotApi = {
+    call<T = unknown>(method: string, params?: Record<string, unknown>): Promise<T>;
+};
+
+export function createBotApi(config: TelegramConfig): BotApi {
+    return {
+        async call<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+            const res = await fetch(`${config.apiBase}/bot${config.token}/${method}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(params),
+            });
+            const data = (await res.json()) as { ok: boolean; result?: T; description?: string };
+            if (!data.ok) throw new Error(`${method}: ${data.description ?? res.status}`);
+            return data.result as T;
+        },
+    };
+}
+
+// Ссылка открывает Mini App сразу в комнате (start_param = код комнаты)
+export function roomLink(config: TelegramConfig, code: string): string {
+    const url = new URL(config.miniAppUrl);
+    url.searchParams.set('startapp', code);
+    return url.toString();
+}
+
+function playButton(config: TelegramConfig, code: string | null, text = 'Играть') {
+    const url = code ? roomLink(config, code) : config.miniAppUrl;
+    return { inline_keyboard: [[{ text, url }]] };
+}
+
+// Комната от имени пользователя Telegram: он хозяин и уже сидит за столом
+function roomFor(user: TelegramUser): Room {
+    const playerId = telegramPlayerId(user.id);
+    const room = createRoom(playerId);
+    sitDown(room, playerId, telegramName(user));
+    persistRoom(room);
+    return room;
+}
+
+// Inline-приглашения: одна свежая комната на пользователя, а не новая на каждое нажатие клавиши
+const inviteRooms = new Map<number, string>();
+
+function inviteRoomFor(user: TelegramUser): Room {
+    const existing = inviteRooms.get(user.id);
+    const room = existing ? getRoom(existing) : undefined;
+    if (room && !room.state) return room;
+    const fresh = roomFor(user);
+    inviteRooms.set(user.id, fresh.id);
+    return fresh;
+}
+
+export function resultText(room: Room): string {
+    const state = room.state!;
+    const nameOf = (id: string) => state.players.find((p) => p.id === id)?.name ?? id;
+    const names = state.finishOrder.map(nameOf);
+    const lines = [`Комната ${room.code}: партия окончена. ${state.message ?? ''}`.trim()];
+    if (names.length > 0) lines.push(`Вышли из игры: ${names.join(', ')}`);
+    const series = room.series;
+    if (series) {
+        const score = Object.entries(series.scores).map(([id, points]) => `${nameOf(id)} ${points}`).join(', ');
+        lines.push(`Счёт серии: ${score}`);
+        if (series.finished) lines.push(`Серию выиграли: ${series.winnerIds.map(nameOf).join(', ')}`);
+    }
+    return lines.join('\n');
+}
+
+async function handleCommand(api: BotApi, config: TelegramConfig, message: Message) {
+    const [head, ...args] = (message.text ?? '').trim().split(/\s+/);
+    const command = head.split('@')[0];
+    const chat_id = message.chat.id;
+
+    if (command === '/start') {
+        // Ссылка вида t.me/<bot>?start=<код> ведёт сразу в комнату
+        const room = args[0] ? findRoomByCode(args[0]) : undefined;
+        if (room) {
+            await api.call('sendMessage', {
+                chat_id,
+                text: `Комната ${room.code}: нажмите «Играть», чтобы сесть за стол.`,
+                reply_markup: playButton(config, room.code),
+            });
+            return;
+        }
+        await api.call('sendMessage', {
+            chat_id,
+            text: 'Привет! Это «Дурак». Откройте игру кнопкой ниже или создайте комнату командой /play.',
+            reply_markup: playButton(config, null),
+        });
+        return;
+    }
+
+    if (command === '/play') {
+        if (!message.from) return;
+        const room = roomFor(message.from);
+        // Итог партии бот пришлёт в этот же чат
+        room.chat = { chatId: chat_id };
+        persistRoom(room);
+        console.log(`[telegram] Room ${room.code} created by /play in chat ${chat_id}`);
+        await api.call('sendMessage', {
+            chat_id,
+            text: `Комната ${room.code} готова. Нажмите «Играть», чтобы сесть за стол.`,
+            reply_markup: playButton(config, room.code),
+        });
+    }
+}
+
+async function handleInlineQuery(api: BotApi, config: TelegramConfig, query: InlineQuery) {
+    const room = inviteRoomFor(query.from);
+    await api.call('answerInlineQuery', {
+        inline_query_id: query.id,
+        cache_time: 0,
+        is_personal: true,
+        results: [
+            {
+                type: 'article',
+                id: room.code,
+                title: 'Пригласить в «Дурака»',
+                description: `Комната ${room.code}`,
+                input_message_content: { message_text: `Сыграем в дурака? Комната ${room.code}.` },
+                reply_markup: playButton(config, room.code),
+            },
+        ],
+    });
+}
+
+export async function handleUpdate(api: BotApi, config: TelegramConfig, update: Update) {
+    if (update.message?.text?.startsWith('/')) {
+        await handleCommand(api, config, update.message);
+    } else if (update.inline_query) {
+        await handleInlineQuery(api, config, update.inline_query);
+    } else if (update.chosen_inline_result) {
+        // Приходит, если у бота включён inline feedback: запоминаем сообщение, чтобы дописать в него итог
+        const { result_id, inline_message_id } = update.chosen_inline_result;
+        const room = findRoomByCode(result_id);
+        if (room && inline_message_id) {
+            room.chat = { inlineMessageId: inline_message_id };
+            persistRoom(room);
+        }
+    }
+}
+
+async function postResult(api: BotApi, config: TelegramConfig, room: Room) {
+    const chat = room.chat;
+    if (!chat) return;
+    const text = resultText(room);
+    const reply_markup = playButton(config, room.code, 'Сыграть ещё');
+    if ('chatId' in chat) await api.call('sendMessage', { chat_id: chat.chatId, text, reply_markup });
+    else await api.call('editMessageText', { inline_message_id: chat.inlineMessageId, text, reply_markup });
+}
+
+// Long polling: обновления забираем сами, без вебхука
+async function poll(api: BotApi, config: TelegramConfig) {
+    let offset = 0;
+    for (;;) {
+        try {
+            const updates = await api.call<Update[]>('getUpdates', {
+                offset,
+                timeout: config.pollTimeoutS,
+                allowed_updates: ['message', 'inline_query', 'chosen_inline_result'],
+            });
+            for (const update of updates) {
+                offset = update.update_id + 1;
+                await handleUpdate(api, config, update).catch((e) => console.log('[telegram] update failed:', e));
+            }
+        } catch (e) {
+            console.log('[telegram] getUpdates failed:', e);
+            await new Promise((resolve) => setTimeout(resolve, 5000));
+        }
+    }
+}
+
+export function startTelegramBot(config: TelegramConfig): BotApi {
+    const api = createBotApi(config);
+    onMatchFinished((room) => {
+        postResult(api, config, room).catch((e) => console.log('[telegram] result post failed:', e));
+    });
+    void poll(api, config);
+    console.log(`[telegram] Bot polling ${config.apiBase}`);
+    return api;
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { findRoomByCode, seatOf } from '../src/rooms';
+import { handleUpdate, type BotApi, type TelegramConfig } from '../src/telegram';
+
+const config: TelegramConfig = {
+    token: 'test-token',
+    apiBase: 'http://localhost',
+    miniAppUrl: 'https://t.me/durak_bot/play',
+    pollTimeoutS: 0,
+};
+
+// Заглушка Bot API: запоминает вызовы вместо запросов в Telegram
+function stubApi() {
+    const calls: { method: string; params: Record<string, any> }[] = [];
+    const api: BotApi = {
+        async call<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+            calls.push({ method, params });
+            return true as T;
+        },
+    };
+    return { api, calls };
+}
+
+const user = { id: 1001, first_name: 'Аня' };
+const chat = { id: 555, type: 'private' };
+
+test('/start без кода отвечает кнопкой Mini App', async () => {
+    const { api, calls } = stubApi();
+    await handleUpdate(api, config, { update_id: 1, message: { message_id: 1, chat, from: user, text: '/start' } });
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].method, 'sendMessage');
+    assert.equal(calls[0].params.chat_id, chat.id);
+    assert.equal(calls[0].params.reply_markup.inline_keyboard[0][0].url, config.miniAppUrl);
+});
+
+test('/play создаёт комнату, сажает автора и ведёт в неё', async () => {
+    const { api, calls } = stubApi();
+    await handleUpdate(api, config, { update_id: 2, message: { message_id: 2, chat, from: user, text: '/play@durak_bot' } });
+    assert.equal(calls.length, 1);
+    const code = /Комната (\w+)/.exec(calls[0].params.text)?.[1];
+    const room = code ? findRoomByCode(code) : undefined;
+    assert.ok(room, 'комната из ответа существует');
+    assert.equal(room.hostId, 'tg-1001');
+    assert.equal(seatOf(room, 'tg-1001')?.name, 'Аня');
+    assert.deepEqual(room.chat, { chatId: chat.id });
+    assert.equal(calls[0].params.reply_markup.inline_keyboard[0][0].url, `${config.miniAppUrl}?startapp=${room.code}`);
+
+    // Ссылка с кодом ведёт в ту же комнату
+    await handleUpdate(api, config, { update_id: 3, message: { message_id: 3, chat, from: user, text: `/start ${room.code}` } });
+    assert.match(calls[1].params.text, new RegExp(`Комната ${room.code}`));
+});
+
+test('inline-запрос отвечает приглашением, выбранный результат запоминает сообщение', async () => {
+    const { api, calls } = stubApi();
+    await handleUpdate(api, config, { update_id: 4, inline_query: { id: 'q1', from: user, query: '' } });
+    assert.equal(calls[0].method, 'answerInlineQuery');
+    const [result] = calls[0].params.results;
+    await handleUpdate(api, config, {
+        update_id: 5,
+        chosen_inline_result: { result_id: result.id, from: user, inline_message_id: 'inline-1' },
+    });
+    assert.deepEqual(findRoomByCode(result.id)?.chat, { inlineMessageId: 'inline-1' });
+});
+
+test('обычный текст без команды бот не трогает', async () => {
+    const { api, calls } = stubApi();
+    await handleUpdate(api, config, { update_id: 6, message: { message_id: 6, chat, from: user, text: 'привет' } });
+    assert.equal(calls.length, 0);
+});
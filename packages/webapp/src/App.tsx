@@ -1,23 +1,33 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 
-type Suit = '♠' | '♥' | '♦' | '♣';
-type Rank = '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
-type Card = { suit: Suit; rank: Rank };
-
-type Player = { id: string; name: string; type: 'human' | 'bot'; hand: Card[] };
-type TableSlot = { attack: Card; defend?: Card };
-type GameState = {
-    deck: Card[];
-    trumpSuit: Suit;
-    trumpCard: Card;
-    players: [Player, Player];
-    attacker: number;
-    defender: number;
-    table: TableSlot[];
-    phase: 'attack' | 'defend' | 'throw' | 'finished';
-    winnerId?: string;
-    message?: string;
-};
+import {
+    PROTOCOL_VERSION,
+    canBeat,
+    type Action,
+    type BotLevel,
+    type Card,
+    type ClientMessage,
+    type DeckSize,
+    type DisconnectPolicy,
+    type GameRecord,
+    type GameView,
+    type LeaderboardEntry,
+    type MatchResult,
+    type PlayerProfile,
+    type QueueStatus,
+    type Rank,
+    type RoomSummary,
+    type Seat,
+    type SeriesConfig,
+    type SeriesState,
+    type ServerMessage,
+    type Spectator,
+    type Suit,
+    type Variant,
+} from '@durak/engine';
+
+// Сообщение клиента без roomId — его подставляет send()
+type Outgoing = ClientMessage extends infer M ? (M extends { roomId: string } ? Omit<M, 'roomId'> : M) : never;
 
 // Глобальный WebSocket
 let WS_SINGLETON: WebSocket | null = null;
@@ -28,21 +38,42 @@ const WS_HOST = '127.0.0.1';
 const WS_PORT = String(import.meta.env.VITE_WS_PORT ?? '8080');
 const WS_URL = `ws://${WS_HOST}:${WS_PORT}`;
 
-// Персистентный playerId
+// Telegram Mini App SDK (подключён в index.html); вне Telegram initData пустые
+type TelegramWebApp = { initData: string; initDataUnsafe: { start_param?: string }; ready(): void; expand(): void };
+const TG = (window as { Telegram?: { WebApp?: TelegramWebApp } }).Telegram?.WebApp;
+const INIT_DATA = TG?.initData ?? '';
+TG?.ready();
+TG?.expand();
+
+// Код комнаты из ссылки-приглашения бота (startapp) — входим в неё сразу после подключения
+let START_CODE: string | null =
+    TG?.initDataUnsafe.start_param || new URLSearchParams(location.search).get('startapp');
+
+function sendMessage(msg: ClientMessage) {
+    WS_SINGLETON?.send(JSON.stringify(msg));
+}
+
+// Персистентный playerId — личность для локальной отладки без Telegram
 const stored = localStorage.getItem('playerId');
 const PLAYER_ID = stored ?? crypto.randomUUID();
 if (!stored) localStorage.setItem('playerId', PLAYER_ID);
 
-function isTrump(card: Card, trump: Suit) { return card.suit === trump; }
-function canBeat(attack: Card, defend: Card, trump: Suit) {
-    const RANK_ORDER: Record<Rank, number> = {
-        '6': 0,'7': 1,'8': 2,'9': 3,'10': 4,'J': 5,'Q': 6,'K': 7,'A': 8,
-    };
-    if (attack.suit === defend.suit) return RANK_ORDER[defend.rank] > RANK_ORDER[attack.rank];
-    if (isTrump(defend, trump) && !isTrump(attack, trump)) return true;
-    return false;
+// Комната, в которой мы находимся; переживает перезагрузку страницы
+let ROOM_ID: string | null = localStorage.getItem('roomId');
+function setRoomId(id: string | null) {
+    ROOM_ID = id;
+    if (id) localStorage.setItem('roomId', id);
+    else localStorage.removeItem('roomId');
+}
+
+// Имя за столом; тоже переживает перезагрузку
+let PLAYER_NAME = localStorage.getItem('playerName') ?? '';
+function setPlayerName(name: string) {
+    PLAYER_NAME = name;
+    localStorage.setItem('playerName', name);
 }
-function ranksOnTable(state: GameState): Set<Rank> {
+
+function ranksOnTable(state: GameView): Set<Rank> {
     const set = new Set<Rank>();
     for (const s of state.table) { set.add(s.attack.rank); if (s.defend) set.add(s.defend.rank); }
     return set;
@@ -50,11 +81,40 @@ function ranksOnTable(state: GameState): Set<Rank> {
 
 export function App() {
     const [you, setYou] = useState<string | null>(null);
-    const [state, setState] = useState<GameState | null>(null);
+    const [state, setState] = useState<GameView | null>(null);
+    const [record, setRecord] = useState<GameRecord | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [wsStatus, setWsStatus] = useState<'connecting' | 'open' | 'closed' | 'error'>('connecting');
     const [wsUrl] = useState<string>(WS_URL);
-    const [screen, setScreen] = useState<'menu' | 'game'>('menu');
+    const [screen, setScreen] = useState<'lobby' | 'queue' | 'menu' | 'game' | 'stats'>('lobby');
+    const [queue, setQueue] = useState<QueueStatus | null>(null);
+    const [room, setRoom] = useState<RoomSummary | null>(null);
+    const [openRooms, setOpenRooms] = useState<RoomSummary[]>([]);
+    const [joinCode, setJoinCode] = useState('');
+    const [name, setName] = useState(PLAYER_NAME);
+    const [seats, setSeats] = useState<Seat[]>([]);
+    const [hostId, setHostId] = useState<string | null>(null);
+    const [playerCount, setPlayerCount] = useState(2);
+    const [variant, setVariant] = useState<Variant>('podkidnoy');
+    const [attackCap, setAttackCap] = useState(true);
+    const [deckSize, setDeckSize] = useState<DeckSize>(36);
+    const [botLevel, setBotLevel] = useState<BotLevel>('easy');
+    const [turnSeconds, setTurnSeconds] = useState(30);
+    const [onDisconnect, setOnDisconnect] = useState<DisconnectPolicy>('bot');
+    const [offline, setOffline] = useState<string[]>([]);
+    const [spectatorDelay, setSpectatorDelay] = useState(0);
+    const [spectators, setSpectators] = useState<Spectator[]>([]);
+    // Настройка серии в меню: '' — отдельные партии, иначе «scoring:target»
+    const [seriesChoice, setSeriesChoice] = useState('');
+    const [series, setSeries] = useState<SeriesState | null>(null);
+    const [drawAgreed, setDrawAgreed] = useState<string[]>([]);
+    const [rematchAgreed, setRematchAgreed] = useState<string[]>([]);
+    const [profile, setProfile] = useState<PlayerProfile | null>(null);
+    const [leaders, setLeaders] = useState<LeaderboardEntry[]>([]);
+    // Срок хода в часах клиента: сервер присылает остаток, а не момент времени
+    const [turn, setTurn] = useState<{ playerIds: string[]; endsAt: number } | null>(null);
+    const [now, setNow] = useState(Date.now());
+    const [transferMode, setTransferMode] = useState(false);
 
     const onOpenRef = useRef<(ev: Event) => void>();
     const onMessageRef = useRef<(ev: MessageEvent) => void>();
@@ -78,20 +138,60 @@ export function App() {
         const onopen = () => {
             console.log('[webapp] ws open', WS_URL);
             setWsStatus('open');
-            WS_SINGLETON!.send(JSON.stringify({ type: 'hello', playerId: PLAYER_ID }));
+            // Сервер проверяет подпись initData; playerId и имя он принимает только в dev-режиме
+            const identity = INIT_DATA ? { initData: INIT_DATA } : { playerId: PLAYER_ID, name: PLAYER_NAME };
+            sendMessage({ type: 'hello', v: PROTOCOL_VERSION, ...identity, roomId: START_CODE ? null : ROOM_ID });
         };
         const onmessage = (ev: MessageEvent) => {
             try {
-                const data = JSON.parse(ev.data);
+                const data = JSON.parse(ev.data) as ServerMessage;
                 console.log('[webapp] msg:', data.type, data);
                 if (data.type === 'hello') {
                     setYou(data.you);
+                } else if (data.type === 'lobby' && START_CODE) {
+                    sendMessage({ type: 'join', code: START_CODE });
+                    START_CODE = null;
+                } else if (data.type === 'lobby') {
+                    setRoomId(null);
+                    setRoom(null);
+                    setOpenRooms(data.rooms);
+                    setState(null);
+                    setScreen('lobby');
+                } else if (data.type === 'profile') {
+                    setProfile(data.profile);
+                } else if (data.type === 'leaderboard') {
+                    setLeaders(data.entries);
+                } else if (data.type === 'queue') {
+                    setQueue(data);
+                    setScreen('queue');
                 } else if (data.type === 'menu') {
+                    setRoomId(data.room.id);
+                    setRoom(data.room);
+                    setYou(data.you ?? null);
+                    setSeats(data.seats);
+                    setHostId(data.hostId);
+                    setPlayerCount(data.playerCount);
+                    setTurnSeconds(data.turnSeconds);
+                    setOnDisconnect(data.onDisconnect);
+                    setSpectatorDelay(data.spectatorDelay);
+                    setSpectators(data.spectators);
+                    setSeries(data.series ?? null);
+                    setTurn(null);
                     setState(null);
                     setScreen('menu');
                 } else if (data.type === 'state') {
+                    setRoomId(data.room.id);
+                    setRoom(data.room);
                     setYou(data.you);
-                    setState(data.state);
+                    setHostId(data.hostId);
+                    setState(data.view);
+                    setTurn(data.turn ? { playerIds: data.turn.playerIds, endsAt: Date.now() + data.turn.msLeft } : null);
+                    setOffline(data.offline);
+                    setDrawAgreed(data.drawAgreed);
+                    setRematchAgreed(data.rematchAgreed);
+                    setSpectators(data.spectators);
+                    setSeries(data.series ?? null);
+                    setRecord(data.record ?? null);
                     setError(null);
                     setScreen('game');
                 } else if (data.type === 'error') {
@@ -128,14 +228,30 @@ export function App() {
         WS_HANDLERS_ATTACHED = true;
     }
 
-    const meIdx = useMemo(() => (state ? state.players.findIndex((p) => p.id === you) : -1), [state, you]);
-    const oppIdx = useMemo(() => {
-        if (!state) return -1;
-        return meIdx === 0 ? 1 : meIdx === 1 ? 0 : -1;
+    // Обратный отсчёт тикает, только пока кто-то ходит на время
+    useEffect(() => {
+        if (!turn) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(timer);
+    }, [turn]);
+
+    const meIdx = useMemo(() => (state && state.players[state.you]?.id === you ? state.you : -1), [state, you]);
+    // Соперники по кругу, начиная со следующего после нас; зритель видит всех
+    const opponents = useMemo(() => {
+        if (state && state.you < 0) return state.players;
+        if (!state || meIdx < 0) return [];
+        const n = state.players.length;
+        return Array.from({ length: n - 1 }, (_, i) => state.players[(meIdx + 1 + i) % n]);
     }, [state, meIdx]);
 
+    // Подкидывать могут все, кроме защитника; первую карту кладёт главный атакующий,
+    // остальные подкидывают после его паса (или когда он уже вышел из игры)
     const isMyTurnAttack = useMemo(() =>
-            !!state && meIdx >= 0 && (state.phase === 'attack' || state.phase === 'throw') && state.attacker === meIdx,
+            !!state && meIdx >= 0 && (state.phase === 'attack' || state.phase === 'throw')
+            && state.defender !== meIdx && !state.passed.includes(meIdx)
+            && (state.attacker === meIdx || (state.table.length > 0 && (state.passed.includes(state.attacker)
+                || (state.players[state.attacker].handCount === 0 && state.deckCount === 0)))),
         [state, meIdx]
     );
     const isMyTurnDefend = useMemo(() =>
@@ -158,29 +274,65 @@ export function App() {
         return (card: Card) => canBeat(attackCard, card, state.trumpSuit);
     }, [state, openAttackIdx]);
 
+    // Перевод: до начала защиты картой того же ранга
+    const canTransfer = useMemo(() => {
+        if (!state || !isMyTurnDefend || state.rules.variant !== 'perevodnoy') return false;
+        if (state.table.length === 0 || state.table.some((s) => !!s.defend)) return false;
+        const n = state.players.length;
+        for (let step = 1; step < n; step++) {
+            const next = state.players[(state.defender + step) % n];
+            if (next.handCount > 0 || state.deckCount > 0) return next.handCount >= state.table.length + 1;
+        }
+        return false;
+    }, [state, isMyTurnDefend]);
+
+    useEffect(() => {
+        if (!canTransfer) setTransferMode(false);
+    }, [canTransfer]);
+
     const canThrow = useMemo(() => state?.phase === 'throw', [state?.phase]);
 
     const throwSlotsLeft = useMemo(() => {
         if (!state) return 0;
-        const defenderHand = state.players[state.defender].hand.length;
-        const onTable = state.table.length;
-        const left = defenderHand - onTable;
+        const defenderHand = state.players[state.defender].handCount;
+        const onTable = state.table.filter((s) => !s.defend).length;
+        const { firstBoutLimit, maxAttacks } = state.rules;
+        const limit = (state.bout === 0 && firstBoutLimit !== null ? firstBoutLimit : maxAttacks) ?? Infinity;
+        const left = Math.min(defenderHand - onTable, limit - state.table.length);
         return left > 0 ? left : 0;
     }, [state]);
 
-    const send = (payload: any) => {
+    const send = (payload: Outgoing) => {
         const ws = WS_SINGLETON;
         if (!ws || ws.readyState !== WebSocket.OPEN) {
             console.warn('[webapp] send skipped; ws not open');
             return;
         }
-        ws.send(JSON.stringify({ ...payload, playerId: PLAYER_ID }));
+        ws.send(JSON.stringify({ ...payload, roomId: ROOM_ID }));
     };
-    const sendAction = (action: any) => send({ type: 'action', action });
-    const startGame = () => { setScreen('game'); setState(null); setError(null); send({ type: 'start' }); };
-    const resetGame = () => { setScreen('game'); setState(null); setError(null); send({ type: 'reset' }); };
-    const backToMenu = () => { send({ type: 'leave' }); setScreen('menu'); setState(null); setError(null); };
+    const sendAction = (action: Action) => send({ type: 'action', action });
+    const startGame = () => {
+        setScreen('game'); setState(null); setError(null);
+        const rules = attackCap ? { variant, deckSize } : { variant, deckSize, firstBoutLimit: null, maxAttacks: null };
+        const [scoring, target] = seriesChoice.split(':');
+        const seriesConfig = seriesChoice ? ({ scoring, target: Number(target) } as SeriesConfig) : null;
+        send({ type: 'start', rules, botLevel, players: playerCount, turnSeconds, onDisconnect, spectatorDelay, series: seriesConfig });
+    };
+    // Новая партия начнётся, когда согласятся все сидящие за столом
+    const voteRematch = (agree: boolean) => { setError(null); send({ type: 'rematch', agree }); };
+    const answerDraw = (agree: boolean) => { setError(null); send({ type: 'draw', agree }); };
+    const backToMenu = () => { send({ type: 'leave' }); setScreen('lobby'); setState(null); setError(null); };
+    const createRoom = () => { setError(null); send({ type: 'create' }); };
+    const joinRoom = (code: string) => { setError(null); send({ type: 'join', code }); };
+    const refreshRooms = () => send({ type: 'rooms' });
+    const openStats = () => { setError(null); send({ type: 'profile' }); send({ type: 'leaderboard' }); setScreen('stats'); };
+    const findGame = () => { setError(null); send({ type: 'queue', variant, players: playerCount }); };
+    const cancelQueue = () => send({ type: 'unqueue' });
     const concede = () => send({ type: 'concede' });
+    const sit = () => { setError(null); send({ type: 'sit' }); };
+    const stand = () => { setError(null); send({ type: 'stand' }); };
+    const changeName = (value: string) => { setName(value); setPlayerName(value); };
+    const saveName = () => send({ type: 'rename', name: PLAYER_NAME });
 
     const cardClickable = (card: Card): boolean => {
         if (!state || state.phase === 'finished') return false;
@@ -188,6 +340,7 @@ export function App() {
             if (!attackAllowedRanks) return true;
             return attackAllowedRanks.has(card.rank);
         } else if (isMyTurnDefend) {
+            if (transferMode) return card.rank === state.table[0].attack.rank;
             if (openAttackIdx < 0) return false;
             return defenseAllowedByIndex(card);
         }
@@ -197,10 +350,128 @@ export function App() {
         if (!state) return;
         if (!cardClickable(card)) return;
         if (isMyTurnAttack) sendAction({ kind: 'attack', card });
+        else if (isMyTurnDefend && transferMode) sendAction({ kind: 'transfer', card });
         else if (isMyTurnDefend) sendAction({ kind: 'defend', attackIndex: openAttackIdx, card });
     };
 
+    if (screen === 'lobby') {
+        return (
+            <div className="app">
+                <div className="panel header">
+                    <h1 style={{ margin: 0 }}>Durak Local</h1>
+                    <div className="status">
+                        <span className="badge">WS: {wsUrl}</span>
+                        <span className="badge">Статус: {wsStatus}</span>
+                    </div>
+                </div>
+                <div className="panel" style={{ marginTop: 12 }}>
+                    <h3 className="section-title">Лобби</h3>
+                    {!INIT_DATA && (
+                        <div className="actions">
+                            <input value={name} onChange={(e) => changeName(e.target.value)} onBlur={saveName} placeholder="Ваше имя" maxLength={32} />
+                        </div>
+                    )}
+                    <div className="actions">
+                        <button onClick={createRoom} disabled={wsStatus !== 'open'}>Создать комнату</button>
+                        <input
+                            value={joinCode}
+                            onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                            placeholder="Код комнаты"
+                            maxLength={5}
+                        />
+                        <button onClick={() => joinRoom(joinCode)} disabled={wsStatus !== 'open' || !joinCode}>Войти</button>
+                    </div>
+                    <h3 className="section-title" style={{ marginTop: 12 }}>Быстрая игра</h3>
+                    <div className="actions">
+                        <select value={variant} onChange={(e) => setVariant(e.target.value as Variant)}>
+                            <option value="podkidnoy">Подкидной</option>
+                            <option value="perevodnoy">Переводной</option>
+                        </select>
+                        <select value={playerCount} onChange={(e) => setPlayerCount(Number(e.target.value))}>
+                            {[2, 3, 4, 5, 6].map((n) => (
+                                <option key={n} value={n}>Игроков: {n}</option>
+                            ))}
+                        </select>
+                        <button onClick={findGame} disabled={wsStatus !== 'open'}>Найти игру</button>
+                    </div>
+                    <h3 className="section-title" style={{ marginTop: 12 }}>Открытые комнаты</h3>
+                    {openRooms.length === 0 && <p>Пока нет открытых комнат.</p>}
+                    <ul>
+                        {openRooms.map((r) => (
+                            <li key={r.id}>
+                                <b>{r.code}</b> — за столом: {r.humans}, в комнате: {r.clients}{' '}
+                                <button onClick={() => joinRoom(r.code)}>Войти</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="actions">
+                        <button onClick={refreshRooms} disabled={wsStatus !== 'open'}>Обновить</button>
+                        <button onClick={openStats} disabled={wsStatus !== 'open'}>Статистика и рейтинг</button>
+                    </div>
+                    {error && <div className="panel" style={{ marginTop: 12, background: '#ffe3e3', borderColor: '#ffb3b3', color: '#7a2222' }}>Ошибка: {error}</div>}
+                </div>
+            </div>
+        );
+    }
+
+    if (screen === 'stats') {
+        return (
+            <div className="app">
+                <div className="panel header">
+                    <h1 style={{ margin: 0 }}>Durak Local</h1>
+                    <div className="status">
+                        <span className="badge">WS: {wsUrl}</span>
+                        <span className="badge">Статус: {wsStatus}</span>
+                    </div>
+                </div>
+                <div className="panel" style={{ marginTop: 12 }}>
+                    <h3 className="section-title">Мой профиль</h3>
+                    {profile ? <ProfileView profile={profile} /> : <p>Сыграйте хотя бы одну партию, чтобы появилась статистика.</p>}
+                    <h3 className="section-title" style={{ marginTop: 12 }}>Таблица лидеров</h3>
+                    {leaders.length === 0 && <p>Рейтинг появится после первых партий между людьми.</p>}
+                    <ol>
+                        {leaders.map((e) => (
+                            <li key={e.playerId}>
+                                <b>{e.name}</b>{e.playerId === you ? ' — вы' : ''}: {e.rating} (партий: {e.ratedGames}, побед: {e.wins}, поражений: {e.losses}, ничьих: {e.draws})
+                            </li>
+                        ))}
+                    </ol>
+                    <div className="actions">
+                        <button onClick={() => { refreshRooms(); setScreen('lobby'); }}>В лобби</button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (screen === 'queue' && queue) {
+        return (
+            <div className="app">
+                <div className="panel header">
+                    <h1 style={{ margin: 0 }}>Durak Local</h1>
+                    <div className="status">
+                        <span className="badge">WS: {wsUrl}</span>
+                        <span className="badge">Статус: {wsStatus}</span>
+                    </div>
+                </div>
+                <div className="panel" style={{ marginTop: 12 }}>
+                    <h3 className="section-title">Ищем соперников…</h3>
+                    <p>
+                        {queue.variant === 'perevodnoy' ? 'Переводной' : 'Подкидной'}, игроков за столом: {queue.players}.
+                        {' '}Ждут: {queue.waiting} из {queue.players}, ожидание {Math.round(queue.waitedMs / 1000)} с.
+                    </p>
+                    <p>Если людей не хватит, через {Math.ceil(queue.botFallbackInMs / 1000)} с свободные места займут боты.</p>
+                    <div className="actions">
+                        <button onClick={cancelQueue}>Отменить</button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     if (screen === 'menu') {
+        const seated = seats.some((s) => s.playerId === you);
+        const isHost = hostId === you;
         return (
             <div className="app">
                 <div className="panel header">
@@ -211,10 +482,79 @@ export function App() {
                     </div>
                 </div>
                 <div className="panel" style={{ marginTop: 12 }}>
-                    <h3 className="section-title">Главное меню</h3>
-                    <p>Одна партия против бота. Нажмите, чтобы начать.</p>
+                    <h3 className="section-title">Комната {room?.code}</h3>
+                    <p>Код комнаты можно отправить друзьям. Свободные места при старте займут боты.</p>
+                    <h3 className="section-title">За столом</h3>
+                    <ol>
+                        {seats.filter((s) => s.type === 'human').map((s) => (
+                            <li key={s.playerId}>
+                                {s.name}
+                                {s.playerId === hostId ? ' (хозяин)' : ''}
+                                {s.playerId === you ? ' — вы' : ''}
+                                {s.offline ? ' (не в сети)' : ''}
+                            </li>
+                        ))}
+                    </ol>
+                    <div className="actions">
+                        {seated
+                            ? <button onClick={stand}>Встать из-за стола</button>
+                            : <button onClick={sit} disabled={wsStatus !== 'open'}>Сесть за стол</button>}
+                    </div>
+                    {isHost ? (
+                        <div className="actions">
+                            <select value={playerCount} onChange={(e) => setPlayerCount(Number(e.target.value))}>
+                                {[2, 3, 4, 5, 6].map((n) => (
+                                    <option key={n} value={n}>Игроков: {n}</option>
+                                ))}
+                            </select>
+                            <select value={variant} onChange={(e) => setVariant(e.target.value as Variant)}>
+                                <option value="podkidnoy">Подкидной</option>
+                                <option value="perevodnoy">Переводной</option>
+                            </select>
+                            <select value={deckSize} onChange={(e) => setDeckSize(Number(e.target.value) as DeckSize)}>
+                                <option value={24}>24 карты (с девятки)</option>
+                                <option value={36}>36 карт (с шестёрки)</option>
+                                <option value={52}>52 карты (с двойки)</option>
+                            </select>
+                            <select value={botLevel} onChange={(e) => setBotLevel(e.target.value as BotLevel)}>
+                                <option value="easy">Бот: лёгкий</option>
+                                <option value="medium">Бот: средний</option>
+                                <option value="hard">Бот: сложный</option>
+                                <option value="expert">Бот: эксперт (перебор в эндшпиле)</option>
+                            </select>
+                            <select value={turnSeconds} onChange={(e) => setTurnSeconds(Number(e.target.value))}>
+                                {[15, 30, 60, 120].map((s) => (
+                                    <option key={s} value={s}>На ход: {s} с</option>
+                                ))}
+                                <option value={0}>На ход: без ограничения</option>
+                            </select>
+                            <select value={onDisconnect} onChange={(e) => setOnDisconnect(e.target.value as DisconnectPolicy)}>
+                                <option value="bot">Отключился — за него доигрывает бот</option>
+                                <option value="forfeit">Отключился — поражение</option>
+                            </select>
+                            <select value={seriesChoice} onChange={(e) => setSeriesChoice(e.target.value)}>
+                                <option value="">Отдельные партии</option>
+                                <option value="wins:3">Серия до 3 побед</option>
+                                <option value="wins:5">Серия до 5 побед</option>
+                                <option value="durak-points:3">Серия: кто первым 3 раза дурак</option>
+                                <option value="durak-points:5">Серия: кто первым 5 раз дурак</option>
+                            </select>
+                            <select value={spectatorDelay} onChange={(e) => setSpectatorDelay(Number(e.target.value))}>
+                                {[0, 10, 30, 60].map((s) => (
+                                    <option key={s} value={s}>{s === 0 ? 'Зрители: без задержки' : `Зрители: задержка ${s} с`}</option>
+                                ))}
+                            </select>
+                            <label>
+                                <input type="checkbox" checked={attackCap} onChange={(e) => setAttackCap(e.target.checked)} />
+                                {' '}Не больше 5 карт в первом отбое и 6 в остальных
+                            </label>
+                            <button onClick={startGame} disabled={wsStatus !== 'open' || !seated}>Начать игру</button>
+                        </div>
+                    ) : (
+                        <p>{room?.inGame ? 'За столом идёт партия.' : 'Ждём, пока хозяин комнаты начнёт партию.'}</p>
+                    )}
                     <div className="actions">
-                        <button onClick={startGame} disabled={wsStatus !== 'open'}>Начать игру</button>
+                        <button onClick={backToMenu}>Выйти из комнаты</button>
                     </div>
                     {error && <div className="panel" style={{ marginTop: 12, background: '#ffe3e3', borderColor: '#ffb3b3', color: '#7a2222' }}>Ошибка: {error}</div>}
                 </div>
@@ -241,7 +581,7 @@ export function App() {
         );
     }
 
-    if (meIdx < 0) {
+    if (meIdx < 0 && state.you >= 0) {
         return (
             <div className="app">
                 <div className="panel header">
@@ -260,12 +600,12 @@ export function App() {
         );
     }
 
-    const oppIdxSafe = oppIdx >= 0 ? oppIdx : (meIdx === 0 ? 1 : 0);
-    const me = state.players[meIdx];
-    const opp = state.players[oppIdxSafe];
+    // null — смотрим чужую партию
+    const me = meIdx >= 0 ? state.players[meIdx] : null;
     const trump = state.trumpSuit;
-    const deckCount = state.deck.length;
+    const deckCount = state.deckCount;
 
+    const nameOf = (id: string) => state.players.find((p) => p.id === id)?.name ?? id;
     const take = () => sendAction({ kind: 'take' });
     const done = () => sendAction({ kind: 'done' });
 
@@ -275,16 +615,53 @@ export function App() {
                 <h1 style={{ margin: 0 }}>Durak Local</h1>
                 <div className="status">
                     <span className="badge">WS: {wsUrl}</span>
+                    {room && <span className="badge">Комната: {room.code}</span>}
                     <span className="badge">Козырь: <b>{trump}</b></span>
-                    <span className="badge">В колоде: {deckCount}</span>
+                    <span className="badge">В колоде: {deckCount} из {state.rules.deckSize}</span>
+                    <span className="badge">Отбой: {state.discardCount}</span>
+                    <span className="badge">{state.rules.variant === 'perevodnoy' ? 'Переводной' : 'Подкидной'}</span>
                     <span className="badge">Фаза: {state.phase}</span>
+                    {record && <span className="badge">Seed: {record.seed}</span>}
                     <span className="badge">Ходит: {state.players[state.attacker].name}</span>
+                    {!me && <span className="badge">Вы зритель</span>}
+                    {series && <span className="badge">{seriesText(series, state)}</span>}
+                    {spectators.length > 0 && (
+                        <span className="badge" title={spectators.map((s) => s.name).join(', ')}>Зрители: {spectators.length}</span>
+                    )}
+                    {turn && state.phase !== 'finished' && (
+                        <span className="badge" style={me && turn.playerIds.includes(me.id) ? { background: '#ffe3e3', color: '#7a2222' } : undefined}>
+                            ⏱ {me && turn.playerIds.includes(me.id) ? 'Ваш ход' : turn.playerIds.map((id) => state.players.find((p) => p.id === id)?.name ?? id).join(', ')}:{' '}
+                            {Math.ceil(Math.max(0, turn.endsAt - now) / 1000)} с
+                        </span>
+                    )}
+                    {state.revealedTrump && state.log.length === 0 && (
+                        <span className="badge">
+                            Наименьший козырь: {state.players.find((p) => p.id === state.revealedTrump!.playerId)?.name}{' '}
+                            {state.revealedTrump.card.rank}{state.revealedTrump.card.suit}
+                        </span>
+                    )}
                 </div>
             </div>
 
             <div className="board">
                 <div className="board-row top">
-                    <HandFan hand={opp.hand} trump={trump} clickable={false} onClick={() => {}} showBack mirror />
+                    {opponents.map((opp) => (
+                        <div key={opp.id} className="opponent">
+                            <span className="badge">
+                                {opp.name}: {opp.handCount}
+                                {state.players[state.defender].id === opp.id ? ' (защищается)' : ''}
+                                {state.passed.some((i) => state.players[i].id === opp.id) ? ' (пас)' : ''}
+                                {offline.includes(opp.id) ? (opp.type === 'bot' ? ' (не в сети, играет бот)' : ' (не в сети)') : ''}
+                            </span>
+                            <HandFan
+                                hand={Array.from({ length: opp.handCount }, (_, i) => opp.known[i] ?? null)}
+                                trump={trump}
+                                clickable={false}
+                                onClick={() => {}}
+                                mirror
+                            />
+                        </div>
+                    ))}
                 </div>
 
                 <div className="board-row center">
@@ -294,6 +671,7 @@ export function App() {
                             <div className="trump-under">
                                 <CardView card={state.trumpCard} trump={trump} clickable={false} />
                             </div>
+                            <DiscardPile count={state.discardCount} />
                         </div>
                         <div className="center-right">
                             <div className="panel">
@@ -322,15 +700,17 @@ export function App() {
                     </div>
                 </div>
 
-                <div className="board-row bottom">
-                    <HandFan
-                        hand={me.hand}
-                        trump={trump}
-                        clickable={state.phase !== 'finished'}
-                        onClick={(c) => onCardClick(c)}
-                        computeClickable={(c) => state.phase !== 'finished' && cardClickable(c)}
-                    />
-                </div>
+                {me && (
+                    <div className="board-row bottom">
+                        <HandFan
+                            hand={state.hand}
+                            trump={trump}
+                            clickable={state.phase !== 'finished'}
+                            onClick={(c) => onCardClick(c)}
+                            computeClickable={(c) => state.phase !== 'finished' && cardClickable(c)}
+                        />
+                    </div>
+                )}
             </div>
 
             {state.message && (
@@ -343,6 +723,17 @@ export function App() {
                     )}
                 </div>
             )}
+            {drawAgreed.length > 0 && state.phase !== 'finished' && (
+                <div className="panel" style={{ marginTop: 12, background: '#fffbe6', borderColor: '#ffe58f' }}>
+                    {nameOf(drawAgreed[0])} предлагает ничью. Согласны: {drawAgreed.map(nameOf).join(', ')}.
+                    {me && (
+                        <div className="actions">
+                            {!drawAgreed.includes(me.id) && <button onClick={() => answerDraw(true)}>Принять</button>}
+                            <button onClick={() => answerDraw(false)}>{drawAgreed[0] === me.id ? 'Отозвать' : 'Отклонить'}</button>
+                        </div>
+                    )}
+                </div>
+            )}
             {error && (
                 <div className="panel" style={{ marginTop: 12, background: '#ffe3e3', borderColor: '#ffb3b3', color: '#7a2222' }}>
                     Ошибка: {error}
@@ -352,25 +743,118 @@ export function App() {
             {state.phase === 'finished' && (
                 <div className="panel" style={{ marginTop: 12, background: '#e6ffed', borderColor: '#abf5b5', color: '#1a7f37' }}>
                     <h3 className="section-title">Игра завершена</h3>
-                    <p>{state.winnerId ? (state.winnerId === me.id ? 'Вы победили!' : 'Бот победил') : 'Ничья'}</p>
+                    <p>{durakText(state, me?.id ?? '')}</p>
+                    {series?.finished && (
+                        <p>
+                            <b>Серия окончена.</b> Победили: {series.winnerIds.map((id) => state.players.find((p) => p.id === id)?.name ?? id).join(', ')}
+                        </p>
+                    )}
+                    <GameLog state={state} />
+                    {rematchAgreed.length > 0 && <p>Согласны на новую партию: {rematchAgreed.map(nameOf).join(', ')}</p>}
                     <div className="actions">
-                        <button onClick={resetGame}>Играть снова</button>
-                        <button onClick={backToMenu}>В главное меню</button>
+                        {!me
+                            ? <button onClick={sit} disabled={wsStatus !== 'open'}>Сесть за стол</button>
+                            : rematchAgreed.includes(me.id)
+                                ? <button onClick={() => voteRematch(false)}>Передумать</button>
+                                : <button onClick={() => voteRematch(true)}>{!series ? 'Играть снова' : series.finished ? 'Новая серия' : 'Следующая партия серии'}</button>}
+                        <button onClick={backToMenu}>В лобби</button>
                     </div>
                 </div>
             )}
 
-            <div className="panel actions" style={{ marginTop: 12 }}>
-                <button onClick={take} disabled={!isMyTurnDefend || state.phase === 'finished'}>Взять</button>
-                <button onClick={done} disabled={!isMyTurnAttack || state.phase === 'finished'}>
-                    {canThrow ? 'Завершить ход (передать защитнику)' : 'Завершить ход'}
-                </button>
-                <button onClick={concede} disabled={state.phase === 'finished'}>Сдаться</button>
-            </div>
+            {me && (
+                <div className="panel actions" style={{ marginTop: 12 }}>
+                    <button onClick={take} disabled={!isMyTurnDefend || state.phase === 'finished'}>Взять</button>
+                    {state.rules.variant === 'perevodnoy' && (
+                        <button onClick={() => setTransferMode((v) => !v)} disabled={!canTransfer}>
+                            {transferMode ? 'Отменить перевод' : 'Перевести'}
+                        </button>
+                    )}
+                    <button onClick={done} disabled={!isMyTurnAttack || state.phase === 'finished'}>
+                        {canThrow ? 'Завершить ход (передать защитнику)' : state.attacker === meIdx ? 'Завершить ход' : 'Пас'}
+                    </button>
+                    <button onClick={() => answerDraw(true)} disabled={state.phase === 'finished' || drawAgreed.includes(me.id)}>
+                        {drawAgreed.length > 0 && !drawAgreed.includes(me.id) ? 'Согласиться на ничью' : 'Предложить ничью'}
+                    </button>
+                    <button onClick={concede} disabled={state.phase === 'finished' || state.finishOrder.includes(me.id)}>Сдаться</button>
+                </div>
+            )}
         </div>
     );
 }
 
+function describeAction(action: Action): string {
+    const card = (c: Card) => `${c.rank}${c.suit}`;
+    switch (action.kind) {
+        case 'attack': return `ходит ${card(action.card)}`;
+        case 'defend': return `бьёт ${card(action.card)}`;
+        case 'transfer': return `переводит ${card(action.card)}`;
+        case 'take': return 'берёт';
+        case 'done': return 'пас';
+    }
+}
+
+const RESULT_TEXT: Record<MatchResult, string> = { win: 'победа', loss: 'дурак', draw: 'ничья' };
+
+function ProfileView({ profile }: { profile: PlayerProfile }) {
+    const average = profile.games > 0 ? Math.round(profile.totalMoves / profile.games) : 0;
+    return (
+        <div>
+            <p>
+                <b>{profile.name}</b>: рейтинг {profile.rating} (рейтинговых партий: {profile.ratedGames})
+            </p>
+            <p>
+                Партий: {profile.games}, побед: {profile.wins}, поражений: {profile.losses}, ничьих: {profile.draws},
+                {' '}остался дураком с картами: {profile.durakCount}, в среднем ходов за партию: {average}
+            </p>
+            <p>
+                Подкидной: {profile.variants.podkidnoy ?? 0}, переводной: {profile.variants.perevodnoy ?? 0}
+            </p>
+            {profile.recent.length > 0 && (
+                <details>
+                    <summary>Последние партии ({profile.recent.length})</summary>
+                    <ol style={{ maxHeight: 240, overflowY: 'auto', margin: '8px 0 0' }}>
+                        {profile.recent.map((m) => (
+                            <li key={m.at}>
+                                {new Date(m.at).toLocaleString()} — {RESULT_TEXT[m.result]}, {m.players.join(', ')}, ходов: {m.moves}
+                                {m.ratingDelta !== undefined ? ` (${m.ratingDelta >= 0 ? '+' : ''}${m.ratingDelta})` : ''}
+                            </li>
+                        ))}
+                    </ol>
+                </details>
+            )}
+        </div>
+    );
+}
+
+function GameLog({ state }: { state: GameView }) {
+    const nameOf = (id: string) => state.players.find((p) => p.id === id)?.name ?? id;
+    return (
+        <details style={{ marginTop: 8 }}>
+            <summary>История ходов ({state.log.length})</summary>
+            <ol style={{ maxHeight: 240, overflowY: 'auto', margin: '8px 0 0' }}>
+                {state.log.map((e) => (
+                    <li key={e.seq}>{nameOf(e.playerId)} {describeAction(e.action)}</li>
+                ))}
+            </ol>
+        </details>
+    );
+}
+
+function seriesText(series: SeriesState, state: GameView): string {
+    const nameOf = (id: string) => state.players.find((p) => p.id === id)?.name ?? id;
+    const score = Object.entries(series.scores).map(([id, points]) => `${nameOf(id)} ${points}`).join(' — ');
+    const goal = series.scoring === 'wins' ? `до ${series.target} побед` : `до ${series.target} очков дурака`;
+    return `Серия (${goal}): ${score}`;
+}
+
+function durakText(state: GameView, meId: string): string {
+    if (!state.durakId) return 'Ничья';
+    if (state.durakId === meId) return 'Вы остались дураком';
+    const durak = state.players.find((p) => p.id === state.durakId);
+    return `${durak?.name ?? 'Соперник'} — дурак. Вы не проиграли!`;
+}
+
 function CardView({
                       card,
                       trump,
@@ -422,21 +906,29 @@ function DeckStack({ count }: { count: number }) {
     );
 }
 
+function DiscardPile({ count }: { count: number }) {
+    if (count === 0) return null;
+    return (
+        <div className="discard-pile" title="Отбой">
+            <CardBack />
+            <div className="deck-count">{count}</div>
+        </div>
+    );
+}
+
 function HandFan({
                      hand,
                      trump,
                      onClick,
                      clickable,
                      computeClickable,
-                     showBack,
                      mirror = false, // true для оппонента
                  }: {
-    hand: Card[];
+    hand: (Card | null)[]; // null — карта рубашкой вверх
     trump: Suit;
     onClick: (c: Card) => void;
     clickable: boolean;
     computeClickable?: (c: Card) => boolean;
-    showBack?: boolean;
     mirror?: boolean;
 }) {
     const n = hand.length;
@@ -464,13 +956,13 @@ function HandFan({
                 // Наложение: у нас правая поверх левой (z=idx); у оппонента левая поверх правой (z=n-idx)
                 const z = mirror ? (n - idx) : idx;
 
-                const canClick = computeClickable ? computeClickable(c) : clickable;
+                const canClick = c !== null && (computeClickable ? computeClickable(c) : clickable);
 
                 return (
                     <button
                         key={idx}
                         className="fan-button"
-                        onClick={() => onClick(c)}
+                        onClick={() => c && onClick(c)}
                         disabled={!canClick}
                         style={{
                             transform: `translate(${tx}px, ${ty}px) rotate(${deg}deg)`,
@@ -478,7 +970,7 @@ function HandFan({
                             cursor: canClick ? 'pointer' : 'default',
                         }}
                     >
-                        {showBack ? <CardBack /> : <CardView card={c} trump={trump} clickable={canClick} />}
+                        {c ? <CardView card={c} trump={trump} clickable={canClick} /> : <CardBack />}
                     </button>
                 );
             })}